@@ -0,0 +1,232 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses many bulletins (i.e. when backfilling an archive) in parallel using worker threads. Each worker parses the
+ * bulletins into JSON, which is then read back into WmoFile objects (over the original text) on the calling thread, so
+ * the results are the same as parsing the bulletins one at a time. Bulletins whose JSON cannot be read back (i.e. the
+ * message parser has no fromJSON) are parsed again on the calling thread, with a warning in the file diagnostics.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {availableParallelism} from "node:os";
+import {Worker} from "node:worker_threads";
+import {IWmoOptions} from "./WmoInterfaces.js";
+import {IWmoFile, WmoFile} from "./WmoFile.js";
+import {IWmoParseError, WmoErrorCode, WmoParseError} from "./WmoParseError.js";
+import {frameWmo, IWmoSplitResult, parseBulletin, WmoStreamSource} from "./WmoSplitter.js";
+
+export interface IWmoBatchItem {
+    text: string;
+    options?: IWmoOptions | undefined;
+}
+
+export interface IWmoBatchOptions {
+    // The number of worker threads (defaults to one less than the number of CPUs)
+    concurrency?: number | null | undefined;
+    // The number of bulletins sent to a worker at a time
+    chunkSize?: number | null | undefined;
+    // The default options for every bulletin (merged with the options of each item)
+    options?: IWmoOptions | null | undefined;
+    // A module imported by each worker before parsing (i.e. to register custom message parsers)
+    setup?: string | URL | null | undefined;
+}
+
+// The messages exchanged with the workers (see WmoBatchWorker.ts)
+export interface IWmoBatchWorkerItem {
+    text: string;
+    options: IWmoOptions;
+}
+
+export interface IWmoBatchWorkerResult {
+    json: string | null;
+    // Errors not raised by the parser only have a message
+    error: IWmoParseError | string | null;
+}
+
+interface IWmoBatchTask {
+    items: IWmoBatchWorkerItem[];
+    resolve: (results: IWmoBatchWorkerResult[]) => void;
+    reject: (error: Error) => void;
+}
+
+export class WmoBatchParser {
+
+    private readonly concurrency: number;
+    private readonly chunkSize: number;
+    private readonly options: IWmoOptions;
+    private readonly setup: string | null;
+
+    private readonly workers: Worker[] = [];
+    private readonly idle: Worker[] = [];
+    private readonly running = new Map<Worker, IWmoBatchTask>();
+    private readonly queue: IWmoBatchTask[] = [];
+
+    public constructor(options?: IWmoBatchOptions) {
+        this.concurrency = Math.max(options?.concurrency ?? availableParallelism() - 1, 1);
+        this.chunkSize = Math.max(options?.chunkSize ?? 32, 1);
+        this.options = options?.options ?? {};
+        this.setup = options?.setup ? options.setup.toString() : null;
+    }
+
+    public async parse(items: (string | IWmoBatchItem)[]): Promise<IWmoSplitResult[]> {
+        const prepared = items.map(i => this.item(i));
+        const results: IWmoSplitResult[] = new Array(items.length);
+
+        // Message parsers and registries are classes, which cannot be sent to a worker, so those are parsed here
+        const remote = prepared.flatMap((item, i) => item.options.messageParser || item.options.registry ? [] : [i]);
+        const chunks: Promise<void>[] = [];
+        for (let c = 0; c < remote.length; c += this.chunkSize) {
+            const indexes = remote.slice(c, c + this.chunkSize);
+            const chunk = indexes.map(i => prepared[i] ?? {text: '', options: {}});
+            chunks.push(this.run(chunk).then(r => indexes.forEach((index, i) => {
+                results[index] = this.toResult(index, chunk[i], r[i]);
+            })));
+        }
+
+        prepared.forEach((item, i) => {
+            if (item.options.messageParser || item.options.registry)
+                results[i] = parseBulletin(i, item.text, item.options);
+        });
+
+        await Promise.all(chunks);
+        return results;
+    }
+
+    public async* stream(source: WmoStreamSource, options?: IWmoOptions): AsyncGenerator<IWmoSplitResult> {
+        // Parse the bulletins in batches, so only a batch is held in memory while keeping all the workers busy
+        const batchSize = this.concurrency * this.chunkSize;
+        let batch: IWmoBatchItem[] = [];
+        let index = 0;
+        for await (const text of frameWmo(source)) {
+            batch.push(options ? {text, options} : {text});
+            if (batch.length >= batchSize) {
+                for (const result of await this.parse(batch))
+                    yield {...result, index: index++};
+                batch = [];
+            }
+        }
+        for (const result of await this.parse(batch))
+            yield {...result, index: index++};
+    }
+
+    public async close(): Promise<void> {
+        // Fail anything still waiting for a worker, so no new workers are started
+        for (const task of this.queue.splice(0))
+            task.reject(new Error('The batch parser was closed'));
+        const workers = this.workers.splice(0);
+        this.idle.splice(0);
+        await Promise.all(workers.map(w => w.terminate()));
+    }
+
+    private item(item: string | IWmoBatchItem): IWmoBatchWorkerItem {
+        // Each item gets its own copy of the options, since the parser sets defaults on it
+        return typeof item === 'string'
+            ? {text: item, options: {...this.options}}
+            : {text: item.text, options: {...this.options, ...item.options}};
+    }
+
+    private toResult(index: number, item: IWmoBatchWorkerItem | undefined,
+                     result: IWmoBatchWorkerResult | undefined): IWmoSplitResult {
+        const text = item?.text ?? '';
+        if (!result || result.error || !result.json) {
+            const error = result?.error ?? 'No result returned by the worker';
+            return {index, text, file: null,
+                error: typeof error === 'string' ? new Error(error) : WmoParseError.fromJSON(error)};
+        }
+
+        try {
+            const json = JSON.parse(result.json) as IWmoFile;
+            return {index, text, file: WmoFile.fromJSON(json, item?.options, text), error: null};
+        } catch (e) {
+            // The worker parsed the bulletin, but the JSON cannot be read back, so parse it here instead
+            const parsed = parseBulletin(index, text, item?.options ?? {...this.options});
+            parsed.file?.parser.warn(`The JSON of the bulletin could not be read back, so it was parsed on the calling thread: ${
+                e instanceof Error ? e.message : String(e)}`, WmoErrorCode.batchJsonUnreadable);
+            return parsed;
+        }
+    }
+
+    private run(items: IWmoBatchWorkerItem[]): Promise<IWmoBatchWorkerResult[]> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({items, resolve, reject});
+            this.dispatch();
+        });
+    }
+
+    private dispatch(): void {
+        // Start workers as needed, up to the concurrency
+        while (this.queue.length > this.idle.length && this.workers.length < this.concurrency)
+            this.idle.push(this.start());
+
+        for (let worker = this.idle.pop(); worker; worker = this.idle.pop()) {
+            const task = this.queue.shift();
+            if (!task) {
+                this.idle.push(worker);
+                return;
+            }
+
+            // Keep the process running while the worker is busy
+            this.running.set(worker, task);
+            worker.ref();
+            worker.postMessage(task.items);
+        }
+    }
+
+    private start(): Worker {
+        const worker = new Worker(new URL('./WmoBatchWorker.js', import.meta.url), {workerData: {setup: this.setup}});
+        this.workers.push(worker);
+
+        worker.on('message', (results: IWmoBatchWorkerResult[]) => {
+            const task = this.running.get(worker);
+            this.running.delete(worker);
+            this.idle.push(worker);
+            worker.unref();
+            task?.resolve(results);
+            this.dispatch();
+        });
+
+        // A worker only fails if it could not start (i.e. the setup module failed). The other workers would fail the
+        // same way, so fail the queued tasks as well. Later calls start new workers.
+        worker.on('error', (e: Error) => this.remove(worker, e, true));
+
+        // A worker may also exit without an error (i.e. the setup module called process.exit, or it was terminated)
+        worker.on('exit', (code: number) =>
+            this.remove(worker, new Error(`The batch worker exited with code ${code}`), false));
+
+        return worker;
+    }
+
+    private remove(worker: Worker, error: Error, failQueued: boolean): void {
+        const index = this.workers.indexOf(worker);
+        if (index >= 0)
+            this.workers.splice(index, 1);
+        const idleIndex = this.idle.indexOf(worker);
+        if (idleIndex >= 0)
+            this.idle.splice(idleIndex, 1);
+
+        // Fail the task the worker was running, so the caller is not left waiting
+        const task = this.running.get(worker);
+        this.running.delete(worker);
+        task?.reject(error);
+
+        if (failQueued) {
+            for (const queued of this.queue.splice(0))
+                queued.reject(error);
+        } else {
+            this.dispatch();
+        }
+    }
+}
+
+export async function parseWmoBatch(items: (string | IWmoBatchItem)[], options?: IWmoBatchOptions): Promise<IWmoSplitResult[]> {
+    const batch = new WmoBatchParser(options);
+    try {
+        return await batch.parse(items);
+    } finally {
+        await batch.close();
+    }
+}
\ No newline at end of file
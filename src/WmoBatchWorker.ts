@@ -0,0 +1,36 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * The worker thread used by the WmoBatchParser. Parses each bulletin it is sent, returning the JSON of the parsed file
+ * (or the error).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {parentPort, workerData} from "node:worker_threads";
+import {IWmoBatchWorkerItem, IWmoBatchWorkerResult} from "./WmoBatch.js";
+import {WmoParseError} from "./WmoParseError.js";
+import {parseBulletin} from "./WmoSplitter.js";
+
+// Import the setup module first (i.e. to register custom message parsers). Any messages sent in the meantime are
+// queued until the listener is added.
+const setup = (workerData as {setup: string | null} | null)?.setup;
+if (setup)
+    await import(setup);
+
+parentPort?.on('message', (items: IWmoBatchWorkerItem[]) => {
+    parentPort?.postMessage(items.map((item, i): IWmoBatchWorkerResult => {
+        const result = parseBulletin(i, item.text, item.options);
+        if (result.file)
+            return {json: JSON.stringify(result.file), error: null};
+        return {
+            json: null,
+            error: result.error instanceof WmoParseError
+                ? result.error.toJSON()
+                : result.error?.message ?? 'Unknown error'
+        };
+    }));
+});
\ No newline at end of file
@@ -11,6 +11,8 @@
 
 import * as dateFns from 'date-fns';
 import {IWmoObject} from "./WmoInterfaces.js";
+import {WmoErrorCode, WmoParseError} from "./WmoParseError.js";
+import {WmoTimeZone} from "./WmoTimeZone.js";
 
 export interface IWmoDateRange {
     start: WmoDate | null;
@@ -20,24 +22,42 @@ export interface IWmoDateRange {
 export interface IWmoDate {
     iso: string;
     time: number;
+    local?: string;
+    zone?: string;
+    offset?: number;
+}
+
+// A date range as it appears in JSON (either the serialized dates, or still the WmoDate objects)
+export interface IWmoDateRangeJson {
+    start: IWmoDate | WmoDate | null;
+    end: IWmoDate | WmoDate | null;
 }
 
 export class WmoDate implements IWmoObject {
 
     public readonly date: Date;
 
+    // The local time as issued, the time zone abbreviation, and its UTC offset in minutes (only if a zone was given)
+    public readonly local: string | null = null;
+    public readonly zone: string | null = null;
+    public readonly offset: number | null = null;
+
     constructor(dateStr: string, format: string, dateCtx?: Date | WmoDate | null) {
-        // TODO: Find something better here, but there doesnt appear to be a good solution for some reason...
-        dateStr = dateStr.replace('EDT', '-04:00')
-            .replace('EST', '-05:00')
-            .replace('CDT', '-05:00')
-            .replace('CST', '-06:00')
-            .replace('MDT', '-06:00')
-            .replace('MST', '-07:00')
-            .replace('PDT', '-07:00')
-            .replace('PST', '-08:00')
-            .replace('HDT', '-09:00')
-            .replace('HST', '-10:00');
+        // Replace the time zone abbreviation with its UTC offset, since date-fns does not parse abbreviations
+        const tz = WmoTimeZone.find(dateStr);
+        if (tz) {
+            this.local = dateStr.trim();
+            this.zone = tz.zone.abbreviation;
+            this.offset = tz.zone.offset;
+            dateStr = dateStr.substring(0, tz.index) + WmoTimeZone.formatOffset(tz.zone.offset)
+                + dateStr.substring(tz.index + tz.length);
+        }
+
+        // NWS times drop the leading zero of the hour (i.e. 100 AM), which date-fns would read as 10:0, so pad the hour
+        if (format.startsWith('hmm') && /^\s*\d{3}\s/.test(dateStr)) {
+            dateStr = dateStr.trim().replace(/^(\d{3})/, '0$1');
+            format = 'h' + format;
+        }
 
         // Normalize date context, or set to now if undefined
         dateCtx = (dateCtx && (dateCtx instanceof WmoDate ? dateCtx.date : dateCtx)) || new Date();
@@ -45,13 +65,60 @@ export class WmoDate implements IWmoObject {
         // Parse date
         this.date = dateFns.parse(dateStr, format, dateCtx);
         if (!this.date || !dateFns.isValid(this.date))
-            throw new Error(`Failed to parse date "${dateStr}" to format "${format}" with context "${dateCtx}": ${this.date}`);
+            throw new WmoParseError(
+                `Failed to parse date "${dateStr}" to format "${format}" with context "${dateCtx}": ${this.date}`,
+                {code: WmoErrorCode.invalidDate});
+    }
+
+    public static fromJSON(json: IWmoDate | WmoDate): WmoDate;
+    public static fromJSON(json: IWmoDate | WmoDate | null | undefined): WmoDate | null;
+    public static fromJSON(json: IWmoDate | WmoDate | null | undefined): WmoDate | null {
+        if (!json)
+            return null;
+        if (json instanceof WmoDate)
+            return json;
+
+        // Rebuild from the epoch time, without parsing
+        return Object.assign(Object.create(WmoDate.prototype) as WmoDate, {
+            date: new Date(json.time),
+            local: json.local ?? null,
+            zone: json.zone ?? null,
+            offset: json.offset ?? null
+        });
+    }
+
+    public static fromDate(date: Date): WmoDate {
+        // Wraps an already resolved date, without parsing
+        return Object.assign(Object.create(WmoDate.prototype) as WmoDate, {
+            date: new Date(date.getTime()),
+            local: null,
+            zone: null,
+            offset: null
+        });
+    }
+
+    public static rangeFromJSON(json: IWmoDateRangeJson | null | undefined): IWmoDateRange | null {
+        return json ? {
+            start: WmoDate.fromJSON(json.start),
+            end: WmoDate.fromJSON(json.end)
+        } : null;
     }
 
     toJSON(): IWmoDate {
+        // The local time is only included when the date was issued in a local time zone
+        if (this.zone === null) {
+            return {
+                iso: this.date.toISOString(),
+                time: this.date.getTime()
+            }
+        }
+
         return {
             iso: this.date.toISOString(),
-            time: this.date.getTime()
+            time: this.date.getTime(),
+            local: this.local ?? '',
+            zone: this.zone,
+            offset: this.offset ?? 0
         }
     }
 
@@ -0,0 +1,132 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Resolves partial timestamps (i.e. a day and time without the month and year, or a time without the day) to a full
+ * date. The missing parts are taken from a reference date, picking the nearest plausible instant to the reference, so
+ * month and year boundaries (and times after midnight) are handled.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoDate} from "./WmoDate.js";
+import {WmoErrorCode, WmoParseError} from "./WmoParseError.js";
+
+// Which side of the reference date the resolved date is expected to be on
+export type WmoDateBias = 'nearest' | 'forward' | 'backward';
+
+export interface IWmoPartialDate {
+    year?: number | null | undefined;
+    month?: number | null | undefined;
+    day?: number | null | undefined;
+    hour?: number | null | undefined;
+    minute?: number | null | undefined;
+    second?: number | null | undefined;
+}
+
+export interface IWmoDateResolveOptions {
+    bias?: WmoDateBias | null | undefined;
+    tolerance?: number | null | undefined;
+}
+
+export class WmoDateResolver {
+
+    public static resolve(partial: IWmoPartialDate, reference: Date | WmoDate,
+                          options?: IWmoDateResolveOptions): WmoDate {
+        const ref = reference instanceof WmoDate ? reference.date : reference;
+        WmoDateResolver.validate(partial, ref);
+
+        // Build the possible dates around the reference, using the reference for the missing parts
+        const candidates = WmoDateResolver.candidates(partial, ref);
+        if (candidates.length <= 0) {
+            throw new WmoParseError(`No valid date found for ${JSON.stringify(partial)} near ${ref.toISOString()}`,
+                {code: WmoErrorCode.invalidDate});
+        }
+
+        return WmoDate.fromDate(WmoDateResolver.pick(candidates, ref, options));
+    }
+
+    private static validate(partial: IWmoPartialDate, ref: Date): void {
+        const limits: [keyof IWmoPartialDate, number, number][] = [
+            ['month', 1, 12], ['day', 1, 31], ['hour', 0, 23], ['minute', 0, 59], ['second', 0, 59]
+        ];
+        const invalid = limits.find(([k, min, max]) => {
+            const v = partial[k];
+            return v !== null && v !== undefined && (!Number.isInteger(v) || v < min || v > max);
+        });
+        if (invalid || isNaN(ref.getTime()) || (partial.year !== null && partial.year !== undefined && isNaN(partial.year))) {
+            throw new WmoParseError(`Invalid partial date ${JSON.stringify(partial)} near ${ref}`,
+                {code: WmoErrorCode.invalidDate});
+        }
+    }
+
+    private static candidates(p: IWmoPartialDate, ref: Date): Date[] {
+        const has = (v: number | null | undefined): v is number => v !== null && v !== undefined;
+
+        // Parts below the given ones default to their start (i.e. a day without a time is midnight)
+        const build = (year: number, month: number, day: number, hour: number, minute: number): Date | null => {
+            const date = new Date(Date.UTC(year, month - 1, day, hour, minute, p.second ?? 0));
+
+            // Skip dates that do not exist (i.e. the 31st of a 30-day month rolls over to the next month)
+            return date.getUTCDate() === day ? date : null;
+        };
+
+        const y = ref.getUTCFullYear();
+        const mo = ref.getUTCMonth() + 1;
+        const d = ref.getUTCDate();
+        const h = ref.getUTCHours();
+        const hour = p.hour ?? 0;
+        const minute = p.minute ?? 0;
+
+        const dates: (Date | null)[] = [];
+        if (has(p.year)) {
+            // Fully specified
+            dates.push(build(p.year, p.month ?? 1, p.day ?? 1, hour, minute));
+        } else if (has(p.month)) {
+            // Month without a year, so try the surrounding years
+            for (let i = -1; i <= 1; ++i)
+                dates.push(build(y + i, p.month, p.day ?? 1, hour, minute));
+        } else if (has(p.day)) {
+            // Day without a month, so try the surrounding months (Date.UTC rolls the month over into the year). Two
+            // months either way are tried, since the day may not exist in the adjacent month (i.e. the 30th).
+            for (let i = -2; i <= 2; ++i) {
+                const monthStart = new Date(Date.UTC(y, mo - 1 + i, 1));
+                dates.push(build(monthStart.getUTCFullYear(), monthStart.getUTCMonth() + 1, p.day, hour, minute));
+            }
+        } else if (has(p.hour)) {
+            // Time without a day, so try the surrounding days
+            for (let i = -1; i <= 1; ++i)
+                dates.push(new Date(Date.UTC(y, mo - 1, d + i, p.hour, minute, p.second ?? 0)));
+        } else {
+            // Minutes (and seconds) only, so try the surrounding hours
+            for (let i = -1; i <= 1; ++i)
+                dates.push(new Date(Date.UTC(y, mo - 1, d, h + i, minute, p.second ?? 0)));
+        }
+
+        return dates.filter(c => c !== null);
+    }
+
+    private static pick(candidates: Date[], ref: Date, options?: IWmoDateResolveOptions): Date {
+        const time = ref.getTime();
+        const nearest = (list: Date[]) => list.reduce((best, c) =>
+            Math.abs(c.getTime() - time) < Math.abs(best.getTime() - time) ? c : best);
+
+        // The tolerance (in minutes) allows the date to be slightly on the other side of the reference (i.e. clock skew)
+        const tolerance = (options?.tolerance ?? 0) * 60000;
+        const bias = options?.bias ?? 'nearest';
+        if (bias === 'forward') {
+            const after = candidates.filter(c => c.getTime() >= time - tolerance);
+            if (after.length > 0)
+                return after.reduce((best, c) => c.getTime() < best.getTime() ? c : best);
+        } else if (bias === 'backward') {
+            const before = candidates.filter(c => c.getTime() <= time + tolerance);
+            if (before.length > 0)
+                return before.reduce((best, c) => c.getTime() > best.getTime() ? c : best);
+        }
+
+        // Otherwise (or if nothing is on the expected side), use the closest date
+        return nearest(candidates);
+    }
+}
\ No newline at end of file
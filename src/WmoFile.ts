@@ -10,58 +10,182 @@
  * Released under the MIT License.
  */
 
-import {IWmoObject, IWmoOptions} from "./WmoInterfaces.js";
+import {IWmoDiagnostic, IWmoObject, IWmoOptions, WmoMessageParser} from "./WmoInterfaces.js";
 import {IWmoHeader, WmoHeader} from "./WmoHeader.js";
-import {IWmoMessage, WmoMessage} from "./WmoMessage.js";
-import {messageParsers} from "./parsers/index.js";
-import {WmoParseError} from "./WmoParseError.js";
+import {IWmoMessage, WmoMessage, WmoMessageJson} from "./WmoMessage.js";
+import {messageParsers, WmoMessageOf} from "./parsers/index.js";
+import {WmoErrorCode, WmoParseError} from "./WmoParseError.js";
 import {WmoParser} from "./WmoParser.js";
+import {WmoParserRegistry} from "./WmoParserRegistry.js";
+import {IWmoJsonSchema, IWmoSchemaResult, WmoSchema} from "./WmoSchema.js";
 
-export interface IWmoFile {
+export interface IWmoFile<M extends IWmoMessage = IWmoMessage> {
     header: IWmoHeader;
-    message: IWmoMessage;
+    message: M;
+    lenient?: boolean;
+    partial?: boolean;
+    diagnostics?: IWmoDiagnostic[];
 }
 
-export class WmoFile implements IWmoObject {
+export class WmoFile<T extends WmoMessage = WmoMessage> implements IWmoObject {
 
     public readonly parser: WmoParser;
     public readonly header: WmoHeader;
-    public readonly message: WmoMessage;
+    public readonly message: T;
+    public readonly diagnostics: IWmoDiagnostic[];
 
     constructor(wmoText: string, options?: IWmoOptions) {
         let parser: WmoParser | undefined;
         try {
             // Construct the parser
             parser = this.parser = new WmoParser(wmoText, options);
+            this.diagnostics = this.parser.diagnostics;
 
             // Parse the header
+            this.parser.setScope(WmoHeader.name);
             this.header = new WmoHeader(this.parser);
+            this.parser.setScope(WmoHeader.name, this.header.designator);
+            WmoFile.checkDesignator(this.parser, this.header, options);
 
-            // Find the message parser
+            // Find the message parser (using the first line of the message for designators used by unrelated products)
             const messageParser = options?.messageParser
                 ? options.messageParser
-                : messageParsers[this.header.designator];
+                : (options?.registry ?? messageParsers).find(this.header, WmoFile.firstLine(this.parser));
             if (!messageParser) {
-                this.parser.error(`No message parser found for designator "${this.header.designator}". Please specify the designator via the 'messageParser' option.`);
+                this.parser.error(
+                    `No message parser found for designator "${this.header.designator}"${this.header.awips ? ` (AWIPS "${this.header.awips.pil}")` : ''}. Please specify the designator via the 'messageParser' option.`,
+                    {code: WmoErrorCode.noMessageParser});
             }
 
-            // Now parse the message
-            this.message = new messageParser(this);
+            // Now parse the message (the caller is responsible for the message type matching the designator)
+            this.parser.setScope(messageParser.name);
+            this.message = new messageParser(this) as T;
 
         } catch(e) {
-            if (!(e instanceof WmoParseError) && e instanceof Error && parser) {
+            // Errors not raised by the parser (i.e. date errors) do not have any line details, so add them
+            if (e instanceof Error && !(e instanceof WmoParseError && e.line !== null) && parser) {
                 // Move the context pointer back, since the error was encountered before next line was extracted
                 parser.seek(-1);
-                parser.error(e.message, e);
+                parser.error(e instanceof WmoParseError ? e.reason : e.message, {
+                    code: e instanceof WmoParseError ? e.code : WmoErrorCode.unexpected,
+                    cause: e
+                });
             }
             throw e;
         }
     }
 
-    toJSON(): IWmoFile {
+    public static fromJSON<T extends WmoMessage = WmoMessage>(json: IWmoFile, options?: IWmoOptions,
+                                                              wmoText?: string): WmoFile<T> {
+        // Rebuild the parser over the original text (if given), so the file can be used as if it was parsed. Otherwise,
+        // the parser only has the header lines, so the source lines of the message are not available.
+        const header = WmoHeader.fromJSON(json.header);
+        const parser: WmoParser = new WmoParser(wmoText ?? header.toText(), {
+            ...options,
+            lenient: options?.lenient ?? json.lenient ?? false
+        });
+        parser.setScope(WmoHeader.name, header.designator);
+        parser.diagnostics.push(...json.diagnostics ?? []);
+        WmoFile.checkDesignator(parser, header, options);
+
+        const wmoFile = Object.assign(Object.create(WmoFile.prototype) as WmoFile<T>, {
+            parser: parser,
+            header: header,
+            diagnostics: parser.diagnostics
+        });
+
+        // Find the message parser, which must also be able to rebuild the message
+        const messageParser = options?.messageParser
+            ? options.messageParser
+            : (options?.registry ?? messageParsers).find(header, null, json.message);
+        if (!messageParser || !messageParser.fromJSON) {
+            parser.error(
+                `No message parser able to read JSON found for designator "${header.designator}"${header.awips ? ` (AWIPS "${header.awips.pil}")` : ''}. Please specify the designator via the 'messageParser' option.`,
+                {code: WmoErrorCode.noMessageParser});
+        }
+
+        parser.setScope(messageParser.name);
+        return Object.assign(wmoFile, {
+            message: messageParser.fromJSON(json.message, wmoFile) as T
+        });
+    }
+
+    private static firstLine(parser: WmoParser): string | undefined {
+        let line = parser.peek();
+        for (let i = 1; line !== undefined && line.trim().length <= 0; ++i)
+            line = parser.peek(i);
+        return line?.trim();
+    }
+
+    private static checkDesignator(parser: WmoParser, header: WmoHeader, options?: IWmoOptions): void {
+        // When a designator is expected, ensure the file is actually that type of product
+        const expected = options?.designator;
+        if (expected && !WmoParserRegistry.toRegExp(expected)?.test(header.designator)) {
+            parser.error(`Expected designator "${expected}", but the file has designator "${header.designator}".`,
+                {code: WmoErrorCode.unexpectedDesignator});
+        }
+    }
+
+    public is<D extends string>(designator: D): this is WmoFile<WmoMessageOf<D>> {
+        // Supports the same wildcards as the parser registry (i.e. UR??15)
+        return !!WmoParserRegistry.toRegExp(designator)?.test(this.header.designator);
+    }
+
+    public static schema(messageParser?: WmoMessageParser | null): IWmoJsonSchema {
+        // Without a message parser, the message can be any object
+        const message = messageParser?.schema ? messageParser.schema() : {type: 'object' as const};
+        return WmoSchema.document(messageParser ? `${messageParser.name} WMO File` : 'WMO File', WmoSchema.object({
+            header: WmoHeader.schema(),
+            message: message,
+            lenient: WmoSchema.boolean(),
+            partial: WmoSchema.boolean(),
+            diagnostics: WmoSchema.array(WmoSchema.ref('WmoDiagnostic'))
+        }, ['lenient', 'partial', 'diagnostics']));
+    }
+
+    public static validateJSON(json: unknown, options?: IWmoOptions): IWmoSchemaResult {
+        // Validate the plain JSON (i.e. if given a parsed file)
+        const value: unknown = json instanceof WmoFile ? JSON.parse(JSON.stringify(json)) : json;
+
+        // First ensure the header is valid, since it is needed to find the message schema
+        const fileResult = WmoSchema.validate(WmoFile.schema(), value);
+        if (!fileResult.valid)
+            return fileResult;
+
+        // Then validate against the schema for the designator
+        const header = WmoHeader.fromJSON((value as IWmoFile).header);
+        const messageParser = options?.messageParser
+            ? options.messageParser
+            : (options?.registry ?? messageParsers).find(header, null, (value as IWmoFile).message);
+        if (!messageParser || !messageParser.schema) {
+            return {valid: false, errors: [{
+                path: 'message',
+                message: `No message schema found for designator "${header.designator}"${header.awips ? ` (AWIPS "${header.awips.pil}")` : ''}`
+            }]};
+        }
+        return WmoSchema.validate(WmoFile.schema(messageParser), value);
+    }
+
+    public isPartial(): boolean {
+        return this.diagnostics.some(d => d.level === 'error');
+    }
+
+    toJSON(): IWmoFile<WmoMessageJson<T>> {
+        // Only include the diagnostics when parsing leniently, so strict output is unchanged
+        const message = this.message.toJSON() as WmoMessageJson<T>;
+        if (!this.parser.isLenient()) {
+            return {
+                header: this.header.toJSON(),
+                message: message
+            }
+        }
+
         return {
             header: this.header.toJSON(),
-            message: this.message.toJSON()
+            message: message,
+            lenient: true,
+            partial: this.isPartial(),
+            diagnostics: this.diagnostics
         }
     }
 
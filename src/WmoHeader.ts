@@ -13,9 +13,12 @@
  * Released under the MIT License.
  */
 
-import {IWmoObject} from "./WmoInterfaces.js";
+import {IWmoObject, IWmoSourceSpan} from "./WmoInterfaces.js";
 import {IWmoDate, WmoDate} from "./WmoDate.js";
+import {WmoDateResolver} from "./WmoDateResolver.js";
 import {WmoParser} from "./WmoParser.js";
+import {WmoErrorCode, WmoParseError} from "./WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "./WmoSchema.js";
 
 export interface IWmoHeaderSegment {
     major: string | null;
@@ -23,6 +26,12 @@ export interface IWmoHeaderSegment {
     last: boolean;
 }
 
+export interface IWmoHeaderAwips {
+    pil: string;
+    category: string;
+    location: string;
+}
+
 export interface IWmoHeader {
     sequence: number | null;
     designator: string | null;
@@ -32,10 +41,31 @@ export interface IWmoHeader {
     correction: string | null;
     amendment: string | null;
     segment: IWmoHeaderSegment | null;
+    awips: IWmoHeaderAwips | null;
+    span?: IWmoSourceSpan;
 }
 
 export class WmoHeader implements IWmoObject {
 
+    // Abbreviated heading line (T1T2A1A2ii CCCC YYGGgg [BBB]) as defined at https://www.weather.gov/tg/head
+    public static readonly headingPattern =
+        /^(\w\w\w\w\d\d)\s+(\w\w\w\w)\s+(\d\d)(\d\d)(\d\d)(?:\s+(?:(RR|CC|AA)([A-X])|P([A-Z])([A-Z])))?$/;
+
+    // AWIPS identifier line (NNNxxx - product category followed by the location)
+    public static readonly awipsPattern = /^([A-Z]{3})([A-Z0-9]{1,3})$/;
+
+    // The known AWIPS product categories (NNN), so a short line of the message (i.e. ZCZC or METAR) is not taken as the
+    // AWIPS identifier. Applications may add the categories of their own products.
+    public static readonly awipsCategories = new Set<string>([
+        // Tropical products (and the recon and TCPOD products)
+        'AHO', 'HLS', 'REP', 'TCA', 'TCD', 'TCE', 'TCM', 'TCP', 'TCU', 'TCV', 'TWD', 'TWO', 'TWS',
+        // Observations and aviation forecasts
+        'MTR', 'SCD', 'TAF', 'OFF', 'CWF', 'MIM',
+        // Public forecasts, watches, warnings and statements
+        'AFD', 'CFW', 'FFA', 'FFS', 'FFW', 'FLS', 'FLW', 'HWO', 'LSR', 'MWS', 'MWW', 'NOW', 'NPW', 'PNS', 'RFW', 'RWS',
+        'SMW', 'SPS', 'SVR', 'SVS', 'TOR', 'WCN', 'WSW', 'ZFP'
+    ]);
+
     public readonly sequence: number | null;
     public readonly designator: string;
     public readonly station: string;
@@ -44,44 +74,40 @@ export class WmoHeader implements IWmoObject {
     public readonly correction: string | null = null;
     public readonly amendment: string | null = null;
     public readonly segment: IWmoHeaderSegment | null = null;
+    public readonly awips: IWmoHeaderAwips | null = null;
+    public readonly span: IWmoSourceSpan | null;
 
     public constructor(parser: WmoParser) {
 
         // Extract the sequence number (optional)
+        const start = parser.mark();
         const sequence = parser.extract(/^\s*(\d{3})\s*$/);
         this.sequence = sequence && sequence[1] ? parseInt(sequence[1]) : null;
 
         // Confirm there is more lines after this
         if (this.sequence && parser.remainingLines() <= 0)
-            parser.error('Invalid WMO message: Missing Abbreviated Heading. First line was detected as the "starting line" which is optional. Second line should then be the Abbreviated Heading as defined at https://www.weather.gov/tg/head');
+            parser.error('Invalid WMO message: Missing Abbreviated Heading. First line was detected as the "starting line" which is optional. Second line should then be the Abbreviated Heading as defined at https://www.weather.gov/tg/head',
+                {code: WmoErrorCode.missingHeading});
 
         // Match the abbreviated heading line
-        const abbvHeading = parser.extract(/^(\w\w\w\w\d\d)\s+(\w\w\w\w)\s+(\d\d)(\d\d)(\d\d)(?:\s+(?:(RR|CC|AA)([A-X])|P([A-Z])([A-Z])))?$/);
+        const abbvHeading = parser.extract(WmoHeader.headingPattern, true, false);
         if (!abbvHeading)
-            parser.error('Invalid WMO message: Missing Abbreviated Heading. First line should be the Abbreviated Heading as defined at https://www.weather.gov/tg/head');
+            parser.error('Invalid WMO message: Missing Abbreviated Heading. First line should be the Abbreviated Heading as defined at https://www.weather.gov/tg/head',
+                {code: WmoErrorCode.missingHeading, pattern: WmoHeader.headingPattern});
 
         // Get designator and station
-        this.designator = abbvHeading[1] ? abbvHeading[1].toUpperCase() : parser.error('Failed to parse WMO Designator from heading.');
-        this.station = abbvHeading[2] ? abbvHeading[2].toUpperCase() : parser.error('Failed to parse WMO Station from heading.');
+        this.designator = abbvHeading[1] ? abbvHeading[1].toUpperCase() : parser.error('Failed to parse WMO Designator from heading.', {code: WmoErrorCode.invalidHeading});
+        this.station = abbvHeading[2] ? abbvHeading[2].toUpperCase() : parser.error('Failed to parse WMO Station from heading.', {code: WmoErrorCode.invalidHeading});
 
-        // If date part is "after" the context data, use last month
+        // The heading only has the day and time. Since a bulletin is received after it was issued, use the latest
+        // date on or before the context date. Any time on the context day is allowed, as the context may only be a date.
         const ctxDate = parser.getDateContext();
-        let wmoMon = ctxDate.getUTCMonth()+1;
-        let wmoYr = ctxDate.getUTCFullYear();
-        let wmoDate = parseInt(abbvHeading[3] ?? 'NaN');
-        if (!isNaN(wmoDate) && wmoDate > ctxDate.getUTCDate()) {
-            // If month is Jan, change to December and decrease year...
-            if (wmoMon == 1) {
-                wmoMon = 12;
-                --wmoYr;
-            } else {
-                // Otherwise, just decrease month
-                --wmoMon;
-            }
-        }
-
-        // Parse date
-        this.datetime = new WmoDate(`${wmoYr}-${wmoMon}-${abbvHeading[3]} ${abbvHeading[4]}:${abbvHeading[5]}Z`, 'yyyy-MM-dd HH:mmX', ctxDate);
+        const ctxDayEnd = Date.UTC(ctxDate.getUTCFullYear(), ctxDate.getUTCMonth(), ctxDate.getUTCDate() + 1);
+        this.datetime = WmoDateResolver.resolve({
+            day: parseInt(abbvHeading[3] ?? 'NaN'),
+            hour: parseInt(abbvHeading[4] ?? 'NaN'),
+            minute: parseInt(abbvHeading[5] ?? 'NaN')
+        }, ctxDate, {bias: 'backward', tolerance: (ctxDayEnd - ctxDate.getTime()) / 60000});
 
         // Process Delays, Corrections, Amendments, and Segments
         if (abbvHeading[6]) {
@@ -93,6 +119,87 @@ export class WmoHeader implements IWmoObject {
                 last: abbvHeading[8] == 'Z'
             };
         }
+
+        // The AWIPS identifier (product category + location) usually follows the abbreviated heading. It is only taken
+        // from the line directly after the heading, and only for a known product category.
+        const awipsLine = parser.peek()?.trim().match(WmoHeader.awipsPattern);
+        const awips = awipsLine && WmoHeader.awipsCategories.has(awipsLine[1] ?? '')
+            ? parser.extract(WmoHeader.awipsPattern)
+            : undefined;
+        parser.skipEmpty();
+        if (awips && awips[1] && awips[2]) {
+            this.awips = {
+                pil: awips[0],
+                category: awips[1],
+                location: awips[2]
+            };
+        }
+
+        // Record where the header was in the source (if enabled)
+        this.span = parser.span(start);
+    }
+
+    public static schema(): IWmoJsonSchema {
+        const text = WmoSchema.nullable(WmoSchema.string());
+        return WmoSchema.object({
+            sequence: WmoSchema.nullable(WmoSchema.integer()),
+            designator: text,
+            station: text,
+            datetime: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+            delay: text,
+            correction: text,
+            amendment: text,
+            segment: WmoSchema.nullable(WmoSchema.object({
+                major: text,
+                minor: text,
+                last: WmoSchema.boolean()
+            })),
+            awips: WmoSchema.nullable(WmoSchema.object({
+                pil: WmoSchema.string(),
+                category: WmoSchema.string(),
+                location: WmoSchema.string()
+            })),
+            span: WmoSchema.ref('WmoSourceSpan')
+        }, ['span']);
+    }
+
+    public static fromJSON(json: IWmoHeader): WmoHeader {
+        if (!json.datetime)
+            throw new WmoParseError('Expected the WMO header JSON to have a date/time', {code: WmoErrorCode.invalidDate});
+
+        return Object.assign(Object.create(WmoHeader.prototype) as WmoHeader, {
+            sequence: json.sequence,
+            designator: json.designator ?? '',
+            station: json.station ?? '',
+            datetime: WmoDate.fromJSON(json.datetime),
+            delay: json.delay,
+            correction: json.correction,
+            amendment: json.amendment,
+            segment: json.segment,
+            awips: json.awips,
+            span: json.span ?? null
+        });
+    }
+
+    public toText(): string {
+        // Rebuild the header lines (starting line, abbreviated heading and AWIPS identifier)
+        const d = this.datetime.date;
+        const time = [d.getUTCDate(), d.getUTCHours(), d.getUTCMinutes()].map(n => n.toString().padStart(2, '0')).join('');
+        const bbb = this.delay ? `RR${this.delay}`
+            : this.correction ? `CC${this.correction}`
+            : this.amendment ? `AA${this.amendment}`
+            : this.segment ? `P${this.segment.major ?? ''}${this.segment.minor ?? ''}`
+            : null;
+        return [
+            this.sequence !== null ? this.sequence.toString().padStart(3, '0') : null,
+            `${this.designator} ${this.station} ${time}${bbb ? ` ${bbb}` : ''}`,
+            this.awips?.pil ?? null
+        ].filter(l => l !== null).join('\n');
+    }
+
+    public getProductKey(): string {
+        // Segments, corrections, amendments and delays of the same product share the designator, station and date/time
+        return `${this.designator} ${this.station} ${this.datetime.date.toISOString()}`;
     }
 
     toJSON(): IWmoHeader {
@@ -104,7 +211,9 @@ export class WmoHeader implements IWmoObject {
             delay: this.delay ?? null,
             correction: this.correction ?? null,
             amendment: this.amendment ?? null,
-            segment: this.segment ?? null
+            segment: this.segment ?? null,
+            awips: this.awips ?? null,
+            ...(this.span ? {span: this.span} : {})
         };
     }
 
@@ -10,11 +10,24 @@
  */
 
 import {WmoFile} from "./WmoFile.js";
-import {WmoMessage} from "./WmoMessage.js";
+import {IWmoMessage, WmoMessage} from "./WmoMessage.js";
+import {WmoErrorCode} from "./WmoParseError.js";
+import {WmoParserPattern, WmoParserRegistry} from "./WmoParserRegistry.js";
+import {IWmoJsonSchema} from "./WmoSchema.js";
+
+export type WmoMessageParser<T extends WmoMessage = WmoMessage> = (new(wmoFile: WmoFile) => T) & {
+    fromJSON?(json: IWmoMessage, wmoFile: WmoFile): WmoMessage;
+    schema?(): IWmoJsonSchema;
+};
 
 export interface IWmoOptions {
-    messageParser?: (new(wmoFile: WmoFile) => WmoMessage) | null | undefined;
+    messageParser?: WmoMessageParser | null | undefined;
+    registry?: WmoParserRegistry | null | undefined;
+    designator?: WmoParserPattern | null | undefined;
     dateCtx?: Date | null | undefined;
+    lenient?: boolean | null | undefined;
+    sourceSpans?: boolean | null | undefined;
+    sourceText?: boolean | null | undefined;
 }
 
 export interface IWmoCoordinates {
@@ -22,6 +35,22 @@ export interface IWmoCoordinates {
     lon: number;
 }
 
+export interface IWmoSourceSpan {
+    start: number;
+    end: number;
+    startCol: number | null;
+    endCol: number | null;
+    text?: string;
+}
+
+export interface IWmoDiagnostic {
+    level: 'warning' | 'error';
+    code: WmoErrorCode;
+    message: string;
+    line: number;
+    context: string;
+}
+
 export interface IWmoObject {
     toJSON(): object;
 }
\ No newline at end of file
@@ -15,6 +15,8 @@ import {WmoFile} from "./WmoFile.js";
 
 export interface IWmoMessage { }
 
+export type WmoMessageJson<T extends WmoMessage> = ReturnType<T['toJSON']>;
+
 export abstract class WmoMessage implements IWmoObject {
 
     protected readonly wmoFile: WmoFile;
@@ -9,8 +9,122 @@
  * Released under the MIT License.
  */
 
+export enum WmoErrorCode {
+    unknown = 'UNKNOWN',
+    unexpected = 'UNEXPECTED',
+    unexpectedLine = 'UNEXPECTED_LINE',
+    emptyInput = 'EMPTY_INPUT',
+    outOfBounds = 'OUT_OF_BOUNDS',
+    invalidDate = 'INVALID_DATE',
+    missingHeading = 'MISSING_HEADING',
+    invalidHeading = 'INVALID_HEADING',
+    unexpectedDesignator = 'UNEXPECTED_DESIGNATOR',
+    noMessageParser = 'NO_MESSAGE_PARSER',
+    batchJsonUnreadable = 'BATCH_JSON_UNREADABLE',
+    missingHdobHeader = 'MISSING_HDOB_HEADER',
+    badHdobData = 'BAD_HDOB_DATA',
+    missingReccoObservation = 'MISSING_RECCO_OBSERVATION',
+    missingReccoMission = 'MISSING_RECCO_MISSION',
+    unexpectedReccoText = 'UNEXPECTED_RECCO_TEXT',
+    missingVdmHeader = 'MISSING_VDM_HEADER',
+    badVdmItem = 'BAD_VDM_ITEM',
+    missingTempDropPart = 'MISSING_TEMP_DROP_PART',
+    badTempDropGroup = 'BAD_TEMP_DROP_GROUP',
+    badTempGroup = 'BAD_TEMP_GROUP',
+    badMetarReport = 'BAD_METAR_REPORT',
+    badTafForecast = 'BAD_TAF_FORECAST',
+    badUgc = 'BAD_UGC',
+    badVtec = 'BAD_VTEC',
+    missingTcpodDate = 'MISSING_TCPOD_DATE',
+    missingTcpodValid = 'MISSING_TCPOD_VALID',
+    missingTcpodNumber = 'MISSING_TCPOD_NUMBER',
+    missingTcpodBasin = 'MISSING_TCPOD_BASIN',
+    missingTcpodStorm = 'MISSING_TCPOD_STORM',
+    missingTcpodMission = 'MISSING_TCPOD_MISSION',
+    missingTcpodOutlook = 'MISSING_TCPOD_OUTLOOK',
+    missingTwoIssuer = 'MISSING_TWO_ISSUER',
+    missingTwoDate = 'MISSING_TWO_DATE',
+    missingTwoFor = 'MISSING_TWO_FOR',
+    missingTwoArea = 'MISSING_TWO_AREA',
+    missingTwoChance = 'MISSING_TWO_CHANCE',
+    missingStormHeading = 'MISSING_STORM_HEADING',
+    missingStormIssuer = 'MISSING_STORM_ISSUER',
+    missingStormDate = 'MISSING_STORM_DATE',
+    missingTcmCenter = 'MISSING_TCM_CENTER',
+    badTcdPosition = 'BAD_TCD_POSITION'
+}
+
+export interface IWmoParseErrorDetails {
+    code?: WmoErrorCode | undefined;
+    line?: number | null | undefined;
+    lineText?: string | null | undefined;
+    pattern?: RegExp | string | null | undefined;
+    designator?: string | null | undefined;
+    parser?: string | null | undefined;
+    context?: string | null | undefined;
+    cause?: Error | undefined;
+}
+
+export interface IWmoParseError {
+    code: WmoErrorCode;
+    message: string;
+    line: number | null;
+    lineText: string | null;
+    pattern: string | null;
+    designator: string | null;
+    parser: string | null;
+    context: string | null;
+    cause: string | null;
+}
+
 export class WmoParseError extends Error {
-    constructor(message: string, originalError?: Error) {
-        super(message, originalError ? { cause: originalError } : undefined);
+
+    public readonly code: WmoErrorCode;
+    public readonly reason: string;
+    public readonly line: number | null;
+    public readonly lineText: string | null;
+    public readonly pattern: string | null;
+    public readonly designator: string | null;
+    public readonly parser: string | null;
+    public readonly context: string | null;
+
+    constructor(message: string, details: IWmoParseErrorDetails = {}) {
+        super(details.context ? `${message}\n${details.context}` : message,
+            details.cause ? { cause: details.cause } : undefined);
+        this.code = details.code ?? WmoErrorCode.unknown;
+        this.reason = message;
+        this.line = details.line ?? null;
+        this.lineText = details.lineText ?? null;
+        this.pattern = details.pattern instanceof RegExp ? details.pattern.toString() : details.pattern ?? null;
+        this.designator = details.designator ?? null;
+        this.parser = details.parser ?? null;
+        this.context = details.context ?? null;
+    }
+
+    public static fromJSON(json: IWmoParseError): WmoParseError {
+        return new WmoParseError(json.message, {
+            code: json.code,
+            line: json.line,
+            lineText: json.lineText,
+            pattern: json.pattern,
+            designator: json.designator,
+            parser: json.parser,
+            context: json.context,
+            cause: json.cause !== null ? new Error(json.cause) : undefined
+        });
+    }
+
+    toJSON(): IWmoParseError {
+        return {
+            code: this.code,
+            message: this.reason,
+            line: this.line,
+            lineText: this.lineText,
+            pattern: this.pattern,
+            designator: this.designator,
+            parser: this.parser,
+            context: this.context,
+            cause: this.cause instanceof Error ? this.cause.message : null
+        };
     }
 }
\ No newline at end of file
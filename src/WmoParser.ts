@@ -13,8 +13,8 @@
  * Released under the MIT License.
  */
 
-import {WmoParseError} from './WmoParseError.js';
-import {IWmoOptions} from "./WmoInterfaces.js";
+import {IWmoParseErrorDetails, WmoErrorCode, WmoParseError} from './WmoParseError.js';
+import {IWmoDiagnostic, IWmoOptions, IWmoSourceSpan} from "./WmoInterfaces.js";
 
 export enum SeekOrigin {
     start,
@@ -25,9 +25,19 @@ export enum SeekOrigin {
 export class WmoParser {
 
     private readonly options: IWmoOptions;
-    private readonly fileLines: string[];
+
+    // The lines are only materialized (and trimmed) when first accessed, using the offsets into the original text
+    private readonly text: string;
+    private readonly lineStarts: number[];
+    private readonly lines: (string | undefined)[];
+    private readonly trimmedLines: (string | undefined)[];
 
     private position: number = 0;
+    private lastExtracted: number = -1;
+    private parserName: string | null = null;
+    private designator: string | null = null;
+
+    public readonly diagnostics: IWmoDiagnostic[] = [];
 
     public constructor(wmoText: string, options?: IWmoOptions) {
 
@@ -35,32 +45,80 @@ export class WmoParser {
         this.options = options || {};
         this.options.dateCtx = this.options.dateCtx ?? new Date();
 
-        // Ensure not empty (strip "Start of Header" if exists)
-        const trimmed = wmoText.replace('\x01', '').trim();
-        if (trimmed.length <= 0)
-            this.error('Provided WMO Text was empty');
+        // Ensure not empty (strip "Start of Header" and "End of Text" if exists)
+        this.text = (/[\x01\x03]/.test(wmoText) ? wmoText.replace(/[\x01\x03]/g, '') : wmoText).trim();
+        if (this.text.length <= 0)
+            this.error('Provided WMO Text was empty', {code: WmoErrorCode.emptyInput});
+
+        // Find where each line starts (note: guaranteed to have at least 1, otherwise would have been trimmed above)
+        const lineStarts = [0];
+        for (let i = this.text.indexOf('\n'); i >= 0; i = this.text.indexOf('\n', i + 1))
+            lineStarts.push(i + 1);
+        this.lineStarts = lineStarts;
+        this.lines = new Array(lineStarts.length);
+        this.trimmedLines = new Array(lineStarts.length);
+    }
+
+    private line(index: number): string | undefined {
+        if (index < 0 || index >= this.lineStarts.length)
+            return undefined;
 
-        // Split into lines (note: guaranteed to have at least 1, otherwise would have been trimmed above)
-        this.fileLines = trimmed.split(/\r?\n/);
+        const cached = this.lines[index];
+        if (cached !== undefined)
+            return cached;
+
+        // NOAAPort / LDM feeds use CR CR LF line endings, so treat any number of CR before a LF as the line ending
+        const start = this.lineStarts[index] ?? 0;
+        let end = (this.lineStarts[index + 1] ?? this.text.length + 1) - 1;
+        while (end > start && this.text.charCodeAt(end - 1) === 13)
+            --end;
+        return this.lines[index] = this.text.slice(start, end);
+    }
+
+    private trimmedLine(index: number): string | undefined {
+        const cached = this.trimmedLines[index];
+        if (cached !== undefined)
+            return cached;
+
+        const line = this.line(index);
+        return line === undefined ? undefined : this.trimmedLines[index] = line.trim();
     }
 
     public getDateContext(): Date {
         return this.options.dateCtx ?? new Date();
     }
 
+    public isLenient(): boolean {
+        return !!this.options.lenient;
+    }
+
+    public hasSpans(): boolean {
+        return !!this.options.sourceSpans;
+    }
+
+    public setScope(parserName: string, designator?: string | null): void {
+        this.parserName = parserName;
+        if (designator !== undefined)
+            this.designator = designator;
+    }
+
     public totalLines(): number {
-        return this.fileLines.length;
+        return this.lineStarts.length;
     }
 
     public remainingLines(): number {
-        return this.fileLines.length - this.position;
+        return this.lineStarts.length - this.position;
+    }
+
+    public getLines(start: number = this.position, end: number = this.lineStarts.length): string[] {
+        const lines: string[] = [];
+        for (let i = Math.max(start, 0); i < Math.min(end, this.lineStarts.length); ++i)
+            lines.push(this.line(i) ?? '');
+        return lines;
     }
 
     public peek(count: number = 0): string | undefined {
-        const linePos = this.position + count;
-        return linePos >= 0 && linePos < this.fileLines.length
-            ? this.fileLines[linePos]
-            : undefined;
+        return this.line(this.position + count);
     }
 
     public seek(count: number = 0, origin: SeekOrigin = SeekOrigin.current): void {
@@ -72,62 +130,62 @@ export class WmoParser {
                 ? totalCount + count
                 : curPos + count;
         if (newPos < 0 || newPos >= totalCount)
-            this.error(`Unable to seek ${count} from ${SeekOrigin[origin]}: Out of Bounds`);
+            this.error(`Unable to seek ${count} from ${SeekOrigin[origin]}: Out of Bounds`, {code: WmoErrorCode.outOfBounds});
         this.position += count;
     }
 
     public skipEmpty(): void {
-        while (this.peek()?.trim() === '') {
+        while (this.trimmedLine(this.position) === '') {
             ++this.position;
         }
     }
 
-    public assert(message: string, pattern: RegExp = /^.*$/, trim: boolean = true, skipIfEmpty: boolean = true)
+    // The error code may be given in place of trim, as a shorthand for the common case
+    public assert(message: string, pattern?: RegExp, code?: WmoErrorCode): RegExpMatchArray | never;
+    public assert(message: string, pattern?: RegExp, trim?: boolean, skipIfEmpty?: boolean, code?: WmoErrorCode)
+        : RegExpMatchArray | never;
+    public assert(message: string, pattern: RegExp = /^.*$/, trim: boolean | WmoErrorCode = true,
+                  skipIfEmpty: boolean = true, code: WmoErrorCode = WmoErrorCode.unexpectedLine)
         : RegExpMatchArray | never
     {
+        if (typeof trim !== 'boolean') {
+            code = trim;
+            trim = true;
+        }
         const line = this.extract(pattern, trim, skipIfEmpty);
-        return line ? line : this.error(message);
+        return line ? line : this.error(message, {code, pattern});
     }
 
     public extract(pattern: RegExp = /^.*$/, trim: boolean = true, skipIfEmpty: boolean = true)
         : RegExpMatchArray | undefined
     {
-        // Get the current line, and skip if EOF
-        const line = trim ? this.peek()?.trim() : this.peek();
-        if (!line)
-            return;
-
-        // Try and match the line to the provided Regular Expression
-        const lineMatch = line.match(pattern);
-        if (!lineMatch)
-            return;
-
-        // If we found a match, move parser to the next line!
-        ++this.position;
-
-        // If asked to skip empty lines, move the parser to the next non-empty line (or EOF)
-        if (skipIfEmpty)
-            this.skipEmpty();
-
-        // Return match details
-        return lineMatch;
+        return this.extractWith(line => line.match(pattern), trim, skipIfEmpty);
     }
 
     public extractAll(pattern: RegExp, trim: boolean = true, skipIfEmpty: boolean = true)
         : RegExpExecArray[] | undefined
+    {
+        return this.extractWith(line => {
+            const lineMatch = [...line.matchAll(pattern)];
+            return lineMatch.length > 0 ? lineMatch : null;
+        }, trim, skipIfEmpty);
+    }
+
+    public extractWith<T>(matcher: (line: string) => T | null | undefined, trim: boolean = true,
+                          skipIfEmpty: boolean = true): T | undefined
     {
         // Get the current line, and skip if EOF
-        const line = trim ? this.peek()?.trim() : this.peek();
+        const line = trim ? this.trimmedLine(this.position) : this.peek();
         if (!line)
             return;
 
-        // Run match all
-        const lineMatch = [...line.matchAll(pattern)];
-        if (!lineMatch || lineMatch.length <= 0)
+        // Try and match the line (i.e. to a Regular Expression, or a faster fixed-column check)
+        const lineMatch = matcher(line);
+        if (!lineMatch)
             return;
 
         // If we found a match, move parser to the next line!
-        ++this.position;
+        this.lastExtracted = this.position++;
 
         // If asked to skip empty lines, move the parser to the next non-empty line (or EOF)
         if (skipIfEmpty)
@@ -146,26 +204,110 @@ export class WmoParser {
         return str.substring(0, str.length-join.length);
     }
 
-    public error(message: string, originalError?: Error): never {
-        throw new WmoParseError(
-            this.fileLines === null ? message : `${message}\n${this.getContext()}`,
-            originalError);
+    public mark(): number {
+        return this.position;
+    }
+
+    public span(start: number = this.lastExtracted, match?: RegExpMatchArray | null): IWmoSourceSpan | null {
+        // Only track spans when asked to
+        if (!this.hasSpans())
+            return null;
+
+        // The span ends at the last extracted line (or is empty if nothing was extracted since the start)
+        const end = Math.max(this.lastExtracted, start);
+        const span: IWmoSourceSpan = {
+            start: start,
+            end: end,
+            startCol: null,
+            endCol: null
+        };
+
+        // Columns are only known for a match on a single line. Note the line may have been trimmed before matching.
+        const line = this.line(end);
+        if (start === end && match && match.index !== undefined && line !== undefined) {
+            span.startCol = Math.max(match.input ? line.indexOf(match.input) : 0, 0) + match.index;
+            span.endCol = span.startCol + match[0].length;
+        }
+
+        // Optionally include the raw line text
+        if (this.options.sourceText)
+            span.text = this.getLines(start, end + 1).join('\n');
+
+        return span;
+    }
+
+    public error(message: string, details?: IWmoParseErrorDetails): never {
+        // Fill in the details about where the parser currently is
+        throw new WmoParseError(message, {
+            line: this.lineStarts ? this.position : null,
+            lineText: this.lineStarts ? this.peek() ?? null : null,
+            designator: this.designator,
+            parser: this.parserName,
+            context: this.lineStarts ? this.getContext() : null,
+            ...details
+        });
+    }
+
+    public warn(message: string, code: WmoErrorCode = WmoErrorCode.unknown): void {
+        this.diagnostics.push({
+            level: 'warning',
+            code: code,
+            message: message,
+            line: this.position,
+            context: this.getContext()
+        });
+    }
+
+    public recover<T>(parse: () => T, resync?: RegExp): T | null {
+        // If not lenient, simply parse (and let any error be thrown)
+        if (!this.isLenient())
+            return parse();
+
+        const start = this.position;
+        try {
+            return parse();
+        } catch(e) {
+            if (!(e instanceof Error))
+                throw e;
+
+            // Record the error. Errors not raised by the parser (i.e. date errors) are encountered after the line was
+            // extracted, so they do not have any line details.
+            const parseError = e instanceof WmoParseError && e.line !== null ? e : null;
+            const errorPos = parseError?.line ?? Math.max(this.position - 1, start);
+            this.diagnostics.push({
+                level: 'error',
+                code: e instanceof WmoParseError ? e.code : WmoErrorCode.unexpected,
+                message: e instanceof WmoParseError ? e.reason : e.message,
+                line: errorPos,
+                context: parseError?.context ?? this.getContext(errorPos)
+            });
+
+            // Always move past the offending line if nothing was extracted, to ensure the caller makes progress
+            if (this.position === start && this.position < this.lineStarts.length)
+                ++this.position;
+
+            // Skip the rest of the bad section, until the next line that matches the resync pattern (or EOF)
+            while (resync && this.position < this.lineStarts.length && !this.peek()?.match(resync))
+                ++this.position;
+            this.skipEmpty();
+
+            return null;
+        }
     }
 
-    public getContext(): string {
+    public getContext(position: number = this.position): string {
         let context = `====================`;
 
         // Constant helpers
-        const p = this.position;
-        const lines = this.fileLines;
+        const p = position;
         const padSize = (p+3).toString().length;
 
         // Populate context
         const ctxLines = 5;
         for (let i = ctxLines * -1; i <= ctxLines; ++i) {
-            const ctxPos = p + i;
-            if (ctxPos >= 0 && ctxPos < lines.length && lines[ctxPos] !== undefined)
-                context += `\n${i === 0 ? '-->' : '   '} ${(p+i).toString().padStart(padSize, '0')} | ${lines[p+i]}`;
+            const line = this.line(p + i);
+            if (line !== undefined)
+                context += `\n${i === 0 ? '-->' : '   '} ${(p+i).toString().padStart(padSize, '0')} | ${line}`;
         }
 
         return context + `\n====================`;
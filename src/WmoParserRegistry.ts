@@ -0,0 +1,129 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Registry used to find the message parser for a WMO header. Parsers are registered with optional designator, station,
+ * AWIPS identifier and content patterns, which can either be a RegExp or a wildcard string (? matches any one character
+ * and * matches any number of characters). The content pattern is matched against the first line of the message, for
+ * designators reused by unrelated products. Since the message text is not known when reading JSON, registrations with
+ * a content pattern also need a json predicate to be found for the JSON of their messages.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoMessageParser} from "./WmoInterfaces.js";
+import {WmoHeader} from "./WmoHeader.js";
+
+export type WmoParserPattern = string | RegExp;
+
+export interface IWmoParserRegistration {
+    parser: WmoMessageParser;
+    designator?: WmoParserPattern | null | undefined;
+    station?: WmoParserPattern | null | undefined;
+    awips?: WmoParserPattern | null | undefined;
+    content?: WmoParserPattern | null | undefined;
+    json?: ((message: unknown) => boolean) | null | undefined;
+    priority?: number | null | undefined;
+}
+
+interface IWmoParserEntry {
+    registration: IWmoParserRegistration;
+    designator: RegExp | null;
+    station: RegExp | null;
+    awips: RegExp | null;
+    content: RegExp | null;
+    specificity: number;
+    order: number;
+}
+
+export class WmoParserRegistry {
+
+    private entries: IWmoParserEntry[] = [];
+    private order: number = 0;
+
+    public register(registration: IWmoParserRegistration): this {
+        const designator = WmoParserRegistry.toRegExp(registration.designator);
+        const station = WmoParserRegistry.toRegExp(registration.station);
+        const awips = WmoParserRegistry.toRegExp(registration.awips);
+        const content = WmoParserRegistry.toRegExp(registration.content);
+        if (!designator && !station && !awips && !content)
+            throw new Error('A parser registration requires at least one designator, station, AWIPS or content pattern.');
+
+        this.entries.push({
+            registration,
+            designator,
+            station,
+            awips,
+            content,
+            specificity: (designator ? 1 : 0) + (station ? 1 : 0) + (awips ? 1 : 0) + (content ? 1 : 0),
+            order: this.order++
+        });
+        return this;
+    }
+
+    public unregister(parser: WmoMessageParser): number {
+        const count = this.entries.length;
+        this.entries = this.entries.filter(e => e.registration.parser !== parser);
+        return count - this.entries.length;
+    }
+
+    public clear(): void {
+        this.entries = [];
+    }
+
+    public registrations(): IWmoParserRegistration[] {
+        return this.entries.map(e => e.registration);
+    }
+
+    public find(header: WmoHeader, content?: string | null, json?: unknown): WmoMessageParser | null {
+        let best: IWmoParserEntry | null = null;
+        for (const entry of this.entries) {
+            if (!WmoParserRegistry.matches(entry, header, content, json))
+                continue;
+
+            // Highest priority wins, then the most constrained registration. Ties go to the latest registration, so
+            // applications can override the built-in parsers.
+            if (!best || WmoParserRegistry.compare(entry, best) >= 0)
+                best = entry;
+        }
+        return best ? best.registration.parser : null;
+    }
+
+    private static matches(entry: IWmoParserEntry, header: WmoHeader, content?: string | null, json?: unknown): boolean {
+        if (entry.designator && !entry.designator.test(header.designator))
+            return false;
+        if (entry.station && !entry.station.test(header.station))
+            return false;
+
+        // The content is not known when reading JSON, so registrations with a content pattern instead check the shape of
+        // the message JSON (and are skipped without a json predicate)
+        if (entry.content) {
+            const found = content !== null && content !== undefined
+                ? entry.content.test(content)
+                : json !== undefined && !!entry.registration.json?.(json);
+            if (!found)
+                return false;
+        }
+        return !entry.awips || (!!header.awips && entry.awips.test(header.awips.pil));
+    }
+
+    private static compare(a: IWmoParserEntry, b: IWmoParserEntry): number {
+        return (a.registration.priority ?? 0) - (b.registration.priority ?? 0)
+            || a.specificity - b.specificity
+            || a.order - b.order;
+    }
+
+    public static toRegExp(pattern: WmoParserPattern | null | undefined): RegExp | null {
+        if (pattern === null || pattern === undefined)
+            return null;
+        if (pattern instanceof RegExp)
+            return new RegExp(pattern.source, pattern.flags.replace(/[gy]/g, ''));
+
+        // Convert the wildcard pattern to an anchored RegExp, escaping everything else
+        const source = pattern.split('').map(c =>
+            c === '?' ? '.' : c === '*' ? '.*' : c.replace(/[.+^${}()|[\]\\]/g, '\\$&')).join('');
+        return new RegExp(`^${source}$`, 'i');
+    }
+}
\ No newline at end of file
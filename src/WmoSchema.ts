@@ -0,0 +1,225 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * JSON Schema (https://json-schema.org/draft/2020-12) documents describing the JSON output of the parsers, so the
+ * output can be used (and validated) outside of TypeScript. Only the parts of JSON Schema used by the parser schemas
+ * are supported by the validator.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoErrorCode} from "./WmoParseError.js";
+
+export type WmoSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface IWmoJsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    $defs?: {[name: string]: IWmoJsonSchema};
+    title?: string;
+    description?: string;
+    type?: WmoSchemaType | WmoSchemaType[];
+    enum?: (string | number | boolean | null)[];
+    properties?: {[name: string]: IWmoJsonSchema};
+    required?: string[];
+    additionalProperties?: boolean | IWmoJsonSchema;
+    items?: IWmoJsonSchema;
+    anyOf?: IWmoJsonSchema[];
+}
+
+export interface IWmoSchemaError {
+    path: string;
+    message: string;
+}
+
+export interface IWmoSchemaResult {
+    valid: boolean;
+    errors: IWmoSchemaError[];
+}
+
+export class WmoSchema {
+
+    public static readonly draft = 'https://json-schema.org/draft/2020-12/schema';
+
+    public static string(): IWmoJsonSchema {
+        return {type: 'string'};
+    }
+
+    public static number(): IWmoJsonSchema {
+        return {type: 'number'};
+    }
+
+    public static integer(): IWmoJsonSchema {
+        return {type: 'integer'};
+    }
+
+    public static boolean(): IWmoJsonSchema {
+        return {type: 'boolean'};
+    }
+
+    public static array(items: IWmoJsonSchema): IWmoJsonSchema {
+        return {type: 'array', items};
+    }
+
+    public static ref(name: string): IWmoJsonSchema {
+        return {$ref: `#/$defs/${name}`};
+    }
+
+    public static nullable(schema: IWmoJsonSchema): IWmoJsonSchema {
+        // Simple types can list null as another type, while everything else needs an alternative
+        return typeof schema.type === 'string' && !schema.$ref && !schema.enum && schema.type !== 'object'
+            ? {...schema, type: [schema.type, 'null']}
+            : {anyOf: [schema, {type: 'null'}]};
+    }
+
+    public static object(properties: {[name: string]: IWmoJsonSchema}, optional: string[] = []): IWmoJsonSchema {
+        // Every property is required (even if nullable), except the optional ones only output when enabled
+        return {
+            type: 'object',
+            properties,
+            required: Object.keys(properties).filter(p => optional.indexOf(p) < 0),
+            additionalProperties: false
+        };
+    }
+
+    public static defs(): {[name: string]: IWmoJsonSchema} {
+        return {
+            WmoDate: WmoSchema.object({
+                iso: WmoSchema.string(),
+                time: WmoSchema.number(),
+                local: WmoSchema.string(),
+                zone: WmoSchema.string(),
+                offset: WmoSchema.integer()
+            }, ['local', 'zone', 'offset']),
+            WmoDateRange: WmoSchema.object({
+                start: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+                end: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+            }),
+            WmoCoordinates: WmoSchema.object({
+                lat: WmoSchema.number(),
+                lon: WmoSchema.number()
+            }),
+            WmoSourceSpan: WmoSchema.object({
+                start: WmoSchema.integer(),
+                end: WmoSchema.integer(),
+                startCol: WmoSchema.nullable(WmoSchema.integer()),
+                endCol: WmoSchema.nullable(WmoSchema.integer()),
+                text: WmoSchema.string()
+            }, ['text']),
+            WmoDiagnostic: WmoSchema.object({
+                level: {enum: ['warning', 'error']},
+                code: {enum: Object.values(WmoErrorCode)},
+                message: WmoSchema.string(),
+                line: WmoSchema.integer(),
+                context: WmoSchema.string()
+            })
+        };
+    }
+
+    public static document(title: string, schema: IWmoJsonSchema): IWmoJsonSchema {
+        return {
+            $schema: WmoSchema.draft,
+            title,
+            ...schema,
+            $defs: {...WmoSchema.defs(), ...schema.$defs}
+        };
+    }
+
+    public static validate(schema: IWmoJsonSchema, value: unknown): IWmoSchemaResult {
+        const errors: IWmoSchemaError[] = [];
+        WmoSchema.check(schema, value, '', schema, errors);
+        return {valid: errors.length <= 0, errors};
+    }
+
+    private static check(schema: IWmoJsonSchema, value: unknown, path: string, root: IWmoJsonSchema,
+                         errors: IWmoSchemaError[]): void {
+        // Resolve references to the definitions of the root document
+        if (schema.$ref) {
+            const name = schema.$ref.replace(/^#\/\$defs\//, '');
+            const def = root.$defs?.[name];
+            if (!def) {
+                errors.push({path, message: `Unknown schema reference "${schema.$ref}"`});
+                return;
+            }
+            WmoSchema.check(def, value, path, root, errors);
+            return;
+        }
+
+        // At least one of the alternatives must match
+        if (schema.anyOf) {
+            const matches = schema.anyOf.some(s => {
+                const nested: IWmoSchemaError[] = [];
+                WmoSchema.check(s, value, path, root, nested);
+                return nested.length <= 0;
+            });
+            if (!matches) {
+                // Report the errors of the first non-null alternative, as that is usually the most helpful
+                const first = schema.anyOf.find(s => s.type !== 'null') ?? schema.anyOf[0];
+                if (first)
+                    WmoSchema.check(first, value, path, root, errors);
+            }
+            return;
+        }
+
+        if (schema.enum && !schema.enum.some(e => e === value)) {
+            errors.push({path, message: `Expected one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}`});
+            return;
+        }
+
+        if (schema.type) {
+            const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+            const actual = WmoSchema.typeOf(value);
+            if (!types.some(t => t === actual || (t === 'number' && actual === 'integer'))) {
+                errors.push({path, message: `Expected ${types.join(' or ')}, but found ${actual}`});
+                return;
+            }
+        }
+
+        // Check each array item
+        if (Array.isArray(value)) {
+            const items = schema.items;
+            if (items)
+                value.forEach((v, i) => WmoSchema.check(items, v, `${path}[${i}]`, root, errors));
+            return;
+        }
+
+        // Check the object properties
+        if (value === null || typeof value !== 'object')
+            return;
+        const obj = value as Record<string, unknown>;
+        for (const req of schema.required ?? []) {
+            if (!(req in obj))
+                errors.push({path: WmoSchema.join(path, req), message: 'Missing required property'});
+        }
+        for (const [key, v] of Object.entries(obj)) {
+            const propSchema = schema.properties?.[key];
+            if (propSchema) {
+                WmoSchema.check(propSchema, v, WmoSchema.join(path, key), root, errors);
+            } else if (schema.additionalProperties === false) {
+                errors.push({path: WmoSchema.join(path, key), message: 'Unexpected property'});
+            } else if (schema.additionalProperties && schema.additionalProperties !== true) {
+                WmoSchema.check(schema.additionalProperties, v, WmoSchema.join(path, key), root, errors);
+            }
+        }
+    }
+
+    private static typeOf(value: unknown): WmoSchemaType {
+        if (value === null)
+            return 'null';
+        if (Array.isArray(value))
+            return 'array';
+        if (typeof value === 'number')
+            return Number.isInteger(value) ? 'integer' : 'number';
+        if (typeof value === 'string')
+            return 'string';
+        return typeof value === 'boolean' ? 'boolean' : 'object';
+    }
+
+    private static join(path: string, key: string): string {
+        return path ? `${path}.${key}` : key;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,209 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Reassembles segmented bulletins (abbreviated heading ending in PAA, PAB, ..., with the last segment being PZx) into
+ * a single logical product, which is then parsed by the normal message parser. Segments are grouped by designator,
+ * station and date/time. See the BBB group at https://www.weather.gov/tg/head for more details.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoOptions} from "./WmoInterfaces.js";
+import {WmoFile} from "./WmoFile.js";
+import {IWmoHeaderSegment, WmoHeader} from "./WmoHeader.js";
+import {WmoParser} from "./WmoParser.js";
+
+export interface IWmoSegmentAssemblerOptions {
+    maxAge?: number | null | undefined;
+    wmoOptions?: IWmoOptions | null | undefined;
+}
+
+export interface IWmoSegmentSet {
+    key: string;
+    designator: string;
+    station: string;
+    datetime: Date;
+    received: number[];
+    missing: number[];
+    complete: boolean;
+    firstReceived: number;
+    lastReceived: number;
+}
+
+export interface IWmoAssembledResult {
+    key: string | null;
+    text: string;
+    file: WmoFile | null;
+    error: Error | null;
+}
+
+interface IWmoSegment {
+    segment: IWmoHeaderSegment;
+    text: string;
+    body: string[];
+}
+
+interface IWmoSegmentEntry {
+    header: WmoHeader;
+    segments: IWmoSegment[];
+    firstReceived: number;
+    lastReceived: number;
+}
+
+export class WmoSegmentAssembler {
+
+    private readonly maxAge: number;
+    private readonly wmoOptions: IWmoOptions | null;
+    private readonly sets = new Map<string, IWmoSegmentEntry>();
+
+    public constructor(options?: IWmoSegmentAssemblerOptions) {
+        // Default to waiting up to 10 minutes for the remaining segments
+        this.maxAge = options?.maxAge ?? 10 * 60 * 1000;
+        this.wmoOptions = options?.wmoOptions ?? null;
+    }
+
+    public add(wmoText: string, receivedAt: number = Date.now()): IWmoAssembledResult | null {
+        // Parse just the header of the segment
+        let parser: WmoParser;
+        let header: WmoHeader;
+        try {
+            parser = new WmoParser(wmoText, this.copyOptions());
+            header = new WmoHeader(parser);
+        } catch(e) {
+            return {key: null, text: wmoText, file: null, error: e instanceof Error ? e : new Error(`${e}`)};
+        }
+
+        // If not segmented, simply parse as is
+        const key = header.getProductKey();
+        if (!header.segment)
+            return this.parse(key, wmoText);
+
+        // Add the segment to its set (replacing a duplicate of the same segment)
+        let entry = this.sets.get(key);
+        if (!entry) {
+            entry = {header, segments: [], firstReceived: receivedAt, lastReceived: receivedAt};
+            this.sets.set(key, entry);
+        }
+        entry.lastReceived = receivedAt;
+        entry.segments = entry.segments.filter(s =>
+            s.segment.major !== header.segment?.major || s.segment.minor !== header.segment?.minor);
+        entry.segments.push({segment: header.segment, text: wmoText, body: WmoSegmentAssembler.body(parser, header)});
+
+        // Wait for the rest of the segments
+        const status = WmoSegmentAssembler.toStatus(key, entry);
+        if (!status.complete)
+            return null;
+
+        // Join the segments in order. The first segment keeps its heading (without the segment group) and AWIPS line,
+        // while only the body of the remaining segments is needed.
+        this.sets.delete(key);
+        const ordered = WmoSegmentAssembler.order(entry.segments);
+        const text = [
+            ordered[0]?.text.replace(/^(\s*\w{4}\d\d\s+\w{4}\s+\d{6})\s+P[A-Z]{2}[ \t]*$/m, '$1') ?? '',
+            ...ordered.slice(1).map(s => s.body.join('\n'))
+        ].join('\n');
+        return this.parse(key, text);
+    }
+
+    public pending(): IWmoSegmentSet[] {
+        return [...this.sets.entries()].map(([key, entry]) => WmoSegmentAssembler.toStatus(key, entry));
+    }
+
+    public expire(now: number = Date.now()): IWmoSegmentSet[] {
+        // Remove (and return) any partial sets that have not received a segment within the max age
+        const expired: IWmoSegmentSet[] = [];
+        for (const [key, entry] of this.sets) {
+            if (now - entry.lastReceived < this.maxAge)
+                continue;
+            expired.push(WmoSegmentAssembler.toStatus(key, entry));
+            this.sets.delete(key);
+        }
+        return expired;
+    }
+
+    private parse(key: string, text: string): IWmoAssembledResult {
+        try {
+            return {key, text, file: new WmoFile(text, this.copyOptions()), error: null};
+        } catch(e) {
+            return {key, text, file: null, error: e instanceof Error ? e : new Error(`${e}`)};
+        }
+    }
+
+    private copyOptions(): IWmoOptions | undefined {
+        // The parser sets defaults on the options, so each bulletin gets its own copy
+        return this.wmoOptions ? {...this.wmoOptions} : undefined;
+    }
+
+    private static body(parser: WmoParser, header: WmoHeader): string[] {
+        // The body starts right after the heading (and AWIPS identifier). Blank lines at the start are kept, as the
+        // segment may have been split at a paragraph break.
+        const lines = parser.getLines(0);
+        let start = lines.findIndex(l => l.trim().match(WmoHeader.headingPattern)) + 1;
+        if (header.awips) {
+            const awipsLine = lines.findIndex((l, i) => i >= start && l.trim() === header.awips?.pil);
+            start = awipsLine >= 0 ? awipsLine + 1 : start;
+        }
+        return lines.slice(start);
+    }
+
+    private static toStatus(key: string, entry: IWmoSegmentEntry): IWmoSegmentSet {
+        const indexes = WmoSegmentAssembler.indexes(entry.segments);
+        const received = [...indexes.values()].sort((a, b) => a - b);
+
+        // The set is only complete once the last (Z) segment, and every segment before it, has arrived
+        const last = entry.segments.find(s => s.segment.last);
+        const lastIndex = last ? indexes.get(last) : undefined;
+        const expected = lastIndex !== undefined ? lastIndex + 1 : (received[received.length - 1] ?? -1) + 1;
+        const missing: number[] = [];
+        for (let i = 0; i < expected; ++i) {
+            if (received.indexOf(i) < 0)
+                missing.push(i);
+        }
+
+        return {
+            key,
+            designator: entry.header.designator,
+            station: entry.header.station,
+            datetime: entry.header.datetime.date,
+            received,
+            missing,
+            complete: lastIndex !== undefined && missing.length <= 0,
+            firstReceived: entry.firstReceived,
+            lastReceived: entry.lastReceived
+        };
+    }
+
+    private static indexes(segments: IWmoSegment[]): Map<IWmoSegment, number> {
+        // Segments are numbered AA, AB, ..., AZ, BA, ... with the last segment using Z as the first letter. The second
+        // letter of the last segment continues the sequence, so it is placed after the highest other segment.
+        const letter = (l: string | null) => (l ?? 'A').charCodeAt(0) - 65;
+        const indexes = new Map<IWmoSegment, number>();
+        let highest = -1;
+        for (const s of segments) {
+            if (s.segment.last)
+                continue;
+            const index = letter(s.segment.major) * 26 + letter(s.segment.minor);
+            indexes.set(s, index);
+            highest = Math.max(highest, index);
+        }
+
+        for (const s of segments) {
+            if (!s.segment.last)
+                continue;
+            let index = Math.floor(Math.max(highest, 0) / 26) * 26 + letter(s.segment.minor);
+            if (index <= highest)
+                index += 26;
+            indexes.set(s, index);
+        }
+
+        return indexes;
+    }
+
+    private static order(segments: IWmoSegment[]): IWmoSegment[] {
+        const indexes = WmoSegmentAssembler.indexes(segments);
+        return [...segments].sort((a, b) => (indexes.get(a) ?? 0) - (indexes.get(b) ?? 0));
+    }
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Splits a feed containing many bulletins (such as a NOAAPort or LDM dump) into the individual bulletins. Bulletins are
+ * framed by the "Start of Header" (\x01) and "End of Text" (\x03) control characters when present. When the text has
+ * no framing, a new bulletin is started at each abbreviated heading line (and its optional starting line). Streams
+ * (i.e. archive extracts or live sockets) are framed as the chunks arrive, so they are never read into memory at once.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoOptions} from "./WmoInterfaces.js";
+import {WmoFile} from "./WmoFile.js";
+import {WmoHeader} from "./WmoHeader.js";
+
+// Any source of text chunks (i.e. a Node Readable, a Web ReadableStream or an async generator)
+export type WmoStreamSource = AsyncIterable<string | Uint8Array> | ReadableStream<string | Uint8Array>;
+
+export interface IWmoSplitResult {
+    index: number;
+    text: string;
+    file: WmoFile | null;
+    error: Error | null;
+}
+
+export class WmoFramer {
+
+    private lines: string[] = [];
+    private partial: string = '';
+    private framed: boolean = false;
+
+    public push(chunk: string): string[] {
+        const bulletins: string[] = [];
+
+        // Process the text between each of the control characters
+        for (const part of chunk.split(/([\x01\x03])/)) {
+            if (part === '\x01' || part === '\x03') {
+                // Both the start of a new header and the end of text complete the current bulletin
+                this.completeLine();
+                this.completeBulletin(bulletins);
+                this.framed = part === '\x01';
+                continue;
+            }
+
+            // Split into lines, keeping any trailing incomplete line for the next chunk
+            const lines = (this.partial + part).split('\n');
+            this.partial = lines.pop() ?? '';
+            for (const line of lines)
+                this.pushLine(line, bulletins);
+        }
+
+        return bulletins;
+    }
+
+    public flush(): string[] {
+        const bulletins: string[] = [];
+        this.completeLine();
+        this.completeBulletin(bulletins);
+        this.framed = false;
+        return bulletins;
+    }
+
+    private completeLine(): void {
+        if (this.partial.length <= 0)
+            return;
+        this.lines.push(this.partial.replace(/\r+$/, ''));
+        this.partial = '';
+    }
+
+    private pushLine(line: string, bulletins: string[]): void {
+        // NOAAPort / LDM feeds use CR CR LF line endings
+        line = line.replace(/\r+$/, '');
+
+        // If not within a framed bulletin, an abbreviated heading starts a new bulletin
+        if (!this.framed && line.trim().match(WmoHeader.headingPattern)) {
+            // The starting line (sequence number) belongs to the new bulletin, so carry it over
+            let lastLine = this.lines.length - 1;
+            while (lastLine >= 0 && this.lines[lastLine]?.trim() === '')
+                --lastLine;
+            const sequence = lastLine >= 0 && this.lines[lastLine]?.match(/^\s*\d{3}\s*$/)
+                ? this.lines.splice(lastLine)
+                : [];
+
+            this.completeBulletin(bulletins);
+            this.lines = sequence;
+        }
+
+        this.lines.push(line);
+    }
+
+    private completeBulletin(bulletins: string[]): void {
+        // Only emit the bulletin if it has any content (i.e. skip the whitespace between frames)
+        if (this.lines.some(l => l.trim().length > 0))
+            bulletins.push(this.lines.join('\n'));
+        this.lines = [];
+    }
+}
+
+export function parseBulletin(index: number, text: string, options?: IWmoOptions): IWmoSplitResult {
+    try {
+        // Each bulletin gets its own copy of the options, since the parser sets defaults on it
+        return {index, text, file: new WmoFile(text, options ? {...options} : undefined), error: null};
+    } catch(e) {
+        return {index, text, file: null, error: e instanceof Error ? e : new Error(`${e}`)};
+    }
+}
+
+export function* iterateWmo(wmoText: string, options?: IWmoOptions): Generator<IWmoSplitResult> {
+    const framer = new WmoFramer();
+    let index = 0;
+    for (const text of framer.push(wmoText))
+        yield parseBulletin(index++, text, options);
+    for (const text of framer.flush())
+        yield parseBulletin(index++, text, options);
+}
+
+export function splitWmo(wmoText: string, options?: IWmoOptions): IWmoSplitResult[] {
+    return [...iterateWmo(wmoText, options)];
+}
+
+export async function* streamWmo(source: WmoStreamSource, options?: IWmoOptions): AsyncGenerator<IWmoSplitResult> {
+    // Only the current bulletin is held in memory, so each is parsed and yielded as soon as it is complete
+    let index = 0;
+    for await (const bulletin of frameWmo(source))
+        yield parseBulletin(index++, bulletin, options);
+}
+
+export async function* frameWmo(source: WmoStreamSource): AsyncGenerator<string> {
+    const framer = new WmoFramer();
+    const decoder = new TextDecoder();
+    for await (const chunk of readChunks(source)) {
+        // Multibyte characters may be split across chunks, so the decoder holds on to any incomplete sequence
+        yield* framer.push(typeof chunk === 'string' ? chunk : decoder.decode(chunk, {stream: true}));
+    }
+    yield* framer.push(decoder.decode());
+    yield* framer.flush();
+}
+
+async function* readChunks(source: WmoStreamSource): AsyncGenerator<string | Uint8Array> {
+    // Not every runtime supports iterating a Web ReadableStream, so read those through a reader
+    if (!('getReader' in source)) {
+        yield* source;
+        return;
+    }
+
+    const reader = source.getReader();
+    try {
+        while (true) {
+            const {done, value} = await reader.read();
+            if (done)
+                return;
+            yield value;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Resolves the time zone abbreviations used in NWS products (i.e. "200 AM EDT Fri Oct 18 2024") to their UTC offset.
+ * Abbreviations used by the NWS can be found in NWS Directive 10-1701 (Text Product Formats and Codes).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+export interface IWmoTimeZone {
+    abbreviation: string;
+    name: string;
+    offset: number;
+}
+
+export interface IWmoTimeZoneMatch {
+    zone: IWmoTimeZone;
+    index: number;
+    length: number;
+}
+
+export class WmoTimeZone {
+
+    // UTC offsets are in minutes (negative is west of UTC)
+    public static readonly zones: IWmoTimeZone[] = [
+        {abbreviation: 'UTC', name: 'Coordinated Universal Time', offset: 0},
+        {abbreviation: 'GMT', name: 'Greenwich Mean Time', offset: 0},
+        {abbreviation: 'ADT', name: 'Atlantic Daylight Time', offset: -3 * 60},
+        {abbreviation: 'AST', name: 'Atlantic Standard Time', offset: -4 * 60},
+        {abbreviation: 'EDT', name: 'Eastern Daylight Time', offset: -4 * 60},
+        {abbreviation: 'EST', name: 'Eastern Standard Time', offset: -5 * 60},
+        {abbreviation: 'CDT', name: 'Central Daylight Time', offset: -5 * 60},
+        {abbreviation: 'CST', name: 'Central Standard Time', offset: -6 * 60},
+        {abbreviation: 'MDT', name: 'Mountain Daylight Time', offset: -6 * 60},
+        {abbreviation: 'MST', name: 'Mountain Standard Time', offset: -7 * 60},
+        {abbreviation: 'PDT', name: 'Pacific Daylight Time', offset: -7 * 60},
+        {abbreviation: 'PST', name: 'Pacific Standard Time', offset: -8 * 60},
+        {abbreviation: 'AKDT', name: 'Alaska Daylight Time', offset: -8 * 60},
+        {abbreviation: 'AKST', name: 'Alaska Standard Time', offset: -9 * 60},
+        {abbreviation: 'HDT', name: 'Hawaii-Aleutian Daylight Time', offset: -9 * 60},
+        {abbreviation: 'HADT', name: 'Hawaii-Aleutian Daylight Time', offset: -9 * 60},
+        {abbreviation: 'HST', name: 'Hawaii-Aleutian Standard Time', offset: -10 * 60},
+        {abbreviation: 'HAST', name: 'Hawaii-Aleutian Standard Time', offset: -10 * 60},
+        {abbreviation: 'SST', name: 'Samoa Standard Time', offset: -11 * 60},
+        {abbreviation: 'ChST', name: 'Chamorro Standard Time', offset: 10 * 60}
+    ];
+
+    // Only match whole words, trying the longest abbreviations first (i.e. AKDT before ADT)
+    private static readonly pattern = new RegExp(`\\b(${WmoTimeZone.zones
+        .map(z => z.abbreviation)
+        .sort((a, b) => b.length - a.length)
+        .join('|')})\\b`);
+
+    public static resolve(abbreviation: string): IWmoTimeZone | null {
+        return WmoTimeZone.zones.find(z => z.abbreviation === abbreviation)
+            ?? WmoTimeZone.zones.find(z => z.abbreviation.toUpperCase() === abbreviation.toUpperCase())
+            ?? null;
+    }
+
+    public static find(text: string): IWmoTimeZoneMatch | null {
+        const match = text.match(WmoTimeZone.pattern);
+        const zone = match && match[1] ? WmoTimeZone.resolve(match[1]) : null;
+        return match && zone && match.index !== undefined
+            ? {zone, index: match.index, length: match[0].length}
+            : null;
+    }
+
+    public static formatOffset(offset: number): string {
+        // Formats the offset as +HH:MM, as expected by the XXX date format
+        const abs = Math.abs(offset);
+        const hours = Math.floor(abs / 60).toString().padStart(2, '0');
+        const minutes = (abs % 60).toString().padStart(2, '0');
+        return `${offset < 0 ? '-' : '+'}${hours}:${minutes}`;
+    }
+}
\ No newline at end of file
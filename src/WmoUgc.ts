@@ -0,0 +1,303 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Decodes the Universal Geographic Code (UGC) lines and Primary Valid Time Event Code (P-VTEC) strings of segmented NWS
+ * products, and splits those products into their $$ delimited segments. Details can be found in NWS Directive 10-1702
+ * (Universal Geographic Code) and NWS Directive 10-1703 (Valid Time Event Code).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject, IWmoSourceSpan} from "./WmoInterfaces.js";
+import {IWmoDate, WmoDate} from "./WmoDate.js";
+import {WmoDateResolver} from "./WmoDateResolver.js";
+import {WmoParser} from "./WmoParser.js";
+import {WmoErrorCode} from "./WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "./WmoSchema.js";
+
+export interface IWmoUgc {
+    codes: string[];
+    expires: IWmoDate | null;
+    text: string;
+}
+
+export class WmoUgc implements IWmoObject {
+
+    // The start of a UGC line (i.e. FLZ069- or FLC021-)
+    public static readonly pattern = /^[A-Z]{2}[CZ](\d{3}|ALL)[->]/;
+
+    public readonly codes: string[] = [];
+    public readonly expires: WmoDate | null = null;
+    public readonly text: string;
+
+    public constructor(p: WmoParser, reference: WmoDate) {
+        // FLZ069-070-075>077-GAZ154-
+        // 081600-
+        let text = p.assert('Expected UGC line', WmoUgc.pattern, WmoErrorCode.badUgc).input ?? '';
+        for (let next = p.peek()?.trim(); !text.match(/\d{6}-$/) && next?.match(/^[A-Z0-9>-]+$/); next = p.peek()?.trim())
+            text += p.extract()?.[0] ?? '';
+        this.text = text;
+
+        // Each code is either the full code (SSFNNN), or just the number of the last state and format
+        let prefix = '';
+        for (const group of text.split('-').filter(g => g)) {
+            // 081600 - The expiration of the product (day, hour and minute)
+            const expires = group.match(/^(\d{2})(\d{2})(\d{2})$/);
+            if (expires) {
+                this.expires = WmoDateResolver.resolve({
+                    day: parseInt(expires[1] ?? 'NaN'),
+                    hour: parseInt(expires[2] ?? 'NaN'),
+                    minute: parseInt(expires[3] ?? 'NaN')
+                }, reference, {bias: 'forward'});
+                break;
+            }
+
+            // FLZ069, 070, or a range of 075>077 (or FLZ075>FLZ077)
+            const code = group.match(/^([A-Z]{2}[CZ])?(\d{3}|ALL)(?:>(?:[A-Z]{2}[CZ])?(\d{3}))?$/);
+            if (!code || (!code[1] && !prefix)) {
+                if (!p.isLenient())
+                    p.error(`Invalid UGC code "${group}"`, {code: WmoErrorCode.badUgc});
+                p.warn(`Invalid UGC code "${group}"`, WmoErrorCode.badUgc);
+                continue;
+            }
+            prefix = code[1] ?? prefix;
+
+            const first = code[2] ?? '';
+            if (!code[3] || first === 'ALL') {
+                this.codes.push(prefix + first);
+                continue;
+            }
+            for (let n = parseInt(first); n <= parseInt(code[3]); ++n)
+                this.codes.push(prefix + n.toString().padStart(3, '0'));
+        }
+    }
+
+    public static schema(): IWmoJsonSchema {
+        return WmoSchema.object({
+            codes: WmoSchema.array(WmoSchema.string()),
+            expires: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+            text: WmoSchema.string()
+        });
+    }
+
+    public static fromJSON(json: IWmoUgc): WmoUgc {
+        return Object.assign(Object.create(WmoUgc.prototype) as WmoUgc, {
+            ...json,
+            expires: WmoDate.fromJSON(json.expires)
+        });
+    }
+
+    public toJSON(): IWmoUgc {
+        return {
+            codes: this.codes,
+            expires: this.expires?.toJSON() ?? null,
+            text: this.text
+        };
+    }
+}
+
+export interface IWmoVtec {
+    productClass: string;
+    action: string;
+    office: string;
+    phenomena: string;
+    significance: string;
+    etn: number;
+    start: IWmoDate | null;
+    end: IWmoDate | null;
+    text: string;
+}
+
+export class WmoVtec implements IWmoObject {
+
+    // /O.NEW.KMFL.HU.W.1014.241008T1500Z-000000T0000Z/
+    //  1 222 3333 44 5 6666 777777777777 888888888888
+    public static readonly pattern =
+        /^\/([OTEX])\.([A-Z]{3})\.([A-Z]{4})\.([A-Z]{2})\.([A-Z])\.(\d{4})\.(\d{6}T\d{4}Z)-(\d{6}T\d{4}Z)\/$/;
+
+    public readonly productClass: string;
+    public readonly action: string;
+    public readonly office: string;
+    public readonly phenomena: string;
+    public readonly significance: string;
+    public readonly etn: number;
+    public readonly start: WmoDate | null;
+    public readonly end: WmoDate | null;
+    public readonly text: string;
+
+    public constructor(vtec: RegExpMatchArray) {
+        this.text = vtec[0];
+        this.productClass = vtec[1] ?? '';
+        this.action = vtec[2] ?? '';
+        this.office = vtec[3] ?? '';
+        this.phenomena = vtec[4] ?? '';
+        this.significance = vtec[5] ?? '';
+        this.etn = parseInt(vtec[6] ?? 'NaN');
+
+        // 000000T0000Z is an event that has already started (or has no end)
+        this.start = WmoVtec.toDate(vtec[7]);
+        this.end = WmoVtec.toDate(vtec[8]);
+    }
+
+    private static toDate(time: string | undefined): WmoDate | null {
+        return time && time !== '000000T0000Z' ? new WmoDate(time, "yyMMdd'T'HHmmX") : null;
+    }
+
+    public static schema(): IWmoJsonSchema {
+        const date = WmoSchema.nullable(WmoSchema.ref('WmoDate'));
+        return WmoSchema.object({
+            productClass: WmoSchema.string(),
+            action: WmoSchema.string(),
+            office: WmoSchema.string(),
+            phenomena: WmoSchema.string(),
+            significance: WmoSchema.string(),
+            etn: WmoSchema.integer(),
+            start: date,
+            end: date,
+            text: WmoSchema.string()
+        });
+    }
+
+    public static fromJSON(json: IWmoVtec): WmoVtec {
+        return Object.assign(Object.create(WmoVtec.prototype) as WmoVtec, {
+            ...json,
+            start: WmoDate.fromJSON(json.start),
+            end: WmoDate.fromJSON(json.end)
+        });
+    }
+
+    public toJSON(): IWmoVtec {
+        return {
+            productClass: this.productClass,
+            action: this.action,
+            office: this.office,
+            phenomena: this.phenomena,
+            significance: this.significance,
+            etn: this.etn,
+            start: this.start?.toJSON() ?? null,
+            end: this.end?.toJSON() ?? null,
+            text: this.text
+        };
+    }
+}
+
+export interface IWmoUgcSegment {
+    ugc: IWmoUgc;
+    vtec: IWmoVtec[];
+    areas: string[];
+    issuedOn: IWmoDate | null;
+    headlines: string[];
+    text: string;
+    span?: IWmoSourceSpan;
+}
+
+export class WmoUgcSegment implements IWmoObject {
+
+    public readonly ugc: WmoUgc;
+    public readonly vtec: WmoVtec[] = [];
+    public readonly areas: string[] = [];
+    public readonly issuedOn: WmoDate | null = null;
+    public readonly headlines: string[] = [];
+    public readonly text: string;
+    public readonly span: IWmoSourceSpan | null = null;
+
+    public constructor(p: WmoParser, reference: WmoDate) {
+        const start = p.mark();
+        this.ugc = new WmoUgc(p, reference);
+
+        // Each P-VTEC string on its own line (lines like the H-VTEC of hydrologic products are skipped)
+        for (let next = p.peek()?.trim(); next?.match(/^\/.*\/$/); next = p.peek()?.trim()) {
+            const vtec = p.extract(WmoVtec.pattern);
+            if (vtec) {
+                this.vtec.push(new WmoVtec(vtec));
+                continue;
+            }
+            if (next.match(/^\/[OTEX]\./)) {
+                if (!p.isLenient())
+                    p.error(`Invalid VTEC "${next}"`, {code: WmoErrorCode.badVtec});
+                p.warn(`Invalid VTEC "${next}"`, WmoErrorCode.badVtec);
+            }
+            p.extract();
+        }
+
+        // Glades-Hendry-Inland Palm Beach-
+        for (let names = p.extract(/^(.*)-$/); names; names = p.extract(/^(.*)-$/))
+            this.areas.push(...(names[1] ?? '').split('-').map(a => a.trim()).filter(a => a));
+
+        // 1100 AM EDT Tue Oct 8 2024
+        const date = p.extract(/^\d{3,4}\s+(?:AM|PM)\s+.*\d{4}$/i)?.[0];
+        if (date)
+            this.issuedOn = new WmoDate(date, 'hmm a XXX EEE MMM dd yyyy');
+
+        // The rest of the segment, where headlines are the lines wrapped in ... (i.e. ...HURRICANE WARNING IN EFFECT...).
+        // The indent of each line is kept, since it gives the nesting of the bullets (i.e. * WIND: then - LATEST...).
+        const lines: string[] = [];
+        for (let next = p.peek(); next !== undefined && !next.match(/^(\$\$|;|NNNN)\s*$/); next = p.peek()) {
+            // Keep a single empty line between the paragraphs
+            const line = p.extract(/^.*$/, false, false)?.[0]?.trimEnd();
+            if (!line)
+                p.skipEmpty();
+            lines.push(line ?? '');
+        }
+        this.text = lines.join('\n').replace(/^\n+|\n+$/g, '');
+        this.headlines = this.text.split(/\n\s*\n/)
+            .map(h => h.trim().replace(/\s*\n\s*/g, ' ').match(/^\.\.\.(.*)\.\.\.$/)?.[1]?.trim())
+            .filter(h => h !== undefined);
+
+        // The segment ends with $$
+        p.extract(/^\$\$$/);
+
+        // Record where the segment was in the source (if enabled)
+        this.span = p.span(start);
+    }
+
+    public static split(p: WmoParser, reference: WmoDate): WmoUgcSegment[] {
+        // Each segment starts with its UGC line, until there are no more segments (i.e. the forecaster's name follows)
+        const segments: WmoUgcSegment[] = [];
+        for (p.skipEmpty(); p.peek()?.match(WmoUgc.pattern); p.skipEmpty()) {
+            const segment = p.recover(() => new WmoUgcSegment(p, reference), /^\$\$$/);
+            if (segment)
+                segments.push(segment);
+            else
+                p.extract(/^\$\$$/);
+        }
+        return segments;
+    }
+
+    public static schema(): IWmoJsonSchema {
+        return WmoSchema.object({
+            ugc: WmoUgc.schema(),
+            vtec: WmoSchema.array(WmoVtec.schema()),
+            areas: WmoSchema.array(WmoSchema.string()),
+            issuedOn: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+            headlines: WmoSchema.array(WmoSchema.string()),
+            text: WmoSchema.string(),
+            span: WmoSchema.ref('WmoSourceSpan')
+        }, ['span']);
+    }
+
+    public static fromJSON(json: IWmoUgcSegment): WmoUgcSegment {
+        return Object.assign(Object.create(WmoUgcSegment.prototype) as WmoUgcSegment, {
+            ...json,
+            ugc: WmoUgc.fromJSON(json.ugc),
+            vtec: json.vtec.map(v => WmoVtec.fromJSON(v)),
+            issuedOn: WmoDate.fromJSON(json.issuedOn),
+            span: json.span ?? null
+        });
+    }
+
+    public toJSON(): IWmoUgcSegment {
+        return {
+            ugc: this.ugc.toJSON(),
+            vtec: this.vtec.map(v => v.toJSON()),
+            areas: this.areas,
+            issuedOn: this.issuedOn?.toJSON() ?? null,
+            headlines: this.headlines,
+            text: this.text,
+            ...(this.span ? {span: this.span} : {})
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,176 @@
+﻿/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Links delayed (RRx), corrected (CCx) and amended (AAx) products back to the product they replace, using the
+ * designator, station and date/time of the abbreviated heading. See the BBB group at https://www.weather.gov/tg/head for
+ * more details.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoFile} from "./WmoFile.js";
+
+export type WmoChangeKind = 'added' | 'removed' | 'changed';
+
+export interface IWmoFieldChange {
+    path: string;
+    kind: WmoChangeKind;
+    from: unknown;
+    to: unknown;
+}
+
+export interface IWmoProductVersion {
+    file: WmoFile;
+    version: string | null;
+    changes: IWmoFieldChange[];
+}
+
+export interface IWmoVersionChain {
+    key: string;
+    versions: IWmoProductVersion[];
+    latest: WmoFile;
+}
+
+interface IWmoVersionEntry {
+    file: WmoFile;
+    order: number;
+}
+
+export class WmoVersionStore {
+
+    // Keys that describe where data was found, and not the data itself
+    private static readonly ignoredKeys = ['span', 'spans', 'diagnostics', 'partial'];
+
+    private readonly products = new Map<string, IWmoVersionEntry[]>();
+    private received: number = 0;
+
+    public constructor(files?: Iterable<WmoFile>) {
+        if (files)
+            this.addAll(files);
+    }
+
+    public add(file: WmoFile): IWmoVersionChain {
+        const key = file.header.getProductKey();
+        let entries = this.products.get(key);
+        if (!entries) {
+            entries = [];
+            this.products.set(key, entries);
+        }
+
+        // Keep the versions ordered by the BBB letter. Versions with the same letter (i.e. a delayed original) are
+        // ordered by when they were received, with the later one taking precedence.
+        entries.push({file, order: this.received++});
+        entries.sort((a, b) =>
+            WmoVersionStore.rank(a.file) - WmoVersionStore.rank(b.file) || a.order - b.order);
+
+        return WmoVersionStore.toChain(key, entries);
+    }
+
+    public addAll(files: Iterable<WmoFile>): IWmoVersionChain[] {
+        const keys = new Set<string>();
+        for (const file of files) {
+            this.add(file);
+            keys.add(file.header.getProductKey());
+        }
+        return [...keys].map(k => this.get(k)).filter(c => c !== null);
+    }
+
+    public get(key: string | WmoFile): IWmoVersionChain | null {
+        const productKey = typeof key === 'string' ? key : key.header.getProductKey();
+        const entries = this.products.get(productKey);
+        return entries ? WmoVersionStore.toChain(productKey, entries) : null;
+    }
+
+    public latest(key: string | WmoFile): WmoFile | null {
+        return this.get(key)?.latest ?? null;
+    }
+
+    public chains(): IWmoVersionChain[] {
+        return [...this.products.entries()].map(([key, entries]) => WmoVersionStore.toChain(key, entries));
+    }
+
+    public static diff(from: unknown, to: unknown, path: string = ''): IWmoFieldChange[] {
+        // Normalize objects to their JSON representation (i.e. WmoFile, WmoMessage and WmoDate)
+        const a = WmoVersionStore.toValue(from);
+        const b = WmoVersionStore.toValue(to);
+
+        if (WmoVersionStore.isLeaf(a) || WmoVersionStore.isLeaf(b)) {
+            return WmoVersionStore.leafEquals(a, b) ? [] : [{
+                path: path,
+                kind: a === undefined ? 'added' : b === undefined ? 'removed' : 'changed',
+                from: a ?? null,
+                to: b ?? null
+            }];
+        }
+
+        // Compare arrays by index
+        const changes: IWmoFieldChange[] = [];
+        if (Array.isArray(a) || Array.isArray(b)) {
+            const aList = Array.isArray(a) ? a : [];
+            const bList = Array.isArray(b) ? b : [];
+            for (let i = 0; i < Math.max(aList.length, bList.length); ++i)
+                changes.push(...WmoVersionStore.diff(aList[i], bList[i], `${path}[${i}]`));
+            return changes;
+        }
+
+        // Compare objects by key
+        const aObj = a as Record<string, unknown>;
+        const bObj = b as Record<string, unknown>;
+        const keys = new Set([...Object.keys(aObj), ...Object.keys(bObj)]);
+        for (const k of keys) {
+            if (WmoVersionStore.ignoredKeys.indexOf(k) >= 0)
+                continue;
+            changes.push(...WmoVersionStore.diff(aObj[k], bObj[k], path ? `${path}.${k}` : k));
+        }
+        return changes;
+    }
+
+    private static toChain(key: string, entries: IWmoVersionEntry[]): IWmoVersionChain {
+        const latest = entries[entries.length - 1];
+        if (!latest)
+            throw new Error(`No versions found for product ${key}`);
+
+        const versions = entries.map((e, i) => ({
+            file: e.file,
+            version: WmoVersionStore.version(e.file),
+            changes: i > 0 ? WmoVersionStore.diff(entries[i - 1]?.file.message, e.file.message) : []
+        }));
+        return {
+            key,
+            versions,
+            latest: latest.file
+        };
+    }
+
+    private static version(file: WmoFile): string | null {
+        const h = file.header;
+        return h.correction ? `CC${h.correction}` : h.amendment ? `AA${h.amendment}` : h.delay ? `RR${h.delay}` : null;
+    }
+
+    private static rank(file: WmoFile): number {
+        // Originals (and delayed originals) come first, then corrections and amendments in letter order (A = 1)
+        const letter = file.header.correction ?? file.header.amendment;
+        return letter ? letter.charCodeAt(0) - 64 : 0;
+    }
+
+    private static toValue(value: unknown): unknown {
+        return value && typeof value === 'object' && 'toJSON' in value && typeof value.toJSON === 'function'
+            ? value.toJSON()
+            : value;
+    }
+
+    private static isLeaf(value: unknown): boolean {
+        // Dates ({iso, time}) are compared as a single value
+        return value === null || value === undefined || typeof value !== 'object'
+            || ('iso' in value && 'time' in value);
+    }
+
+    private static leafEquals(a: unknown, b: unknown): boolean {
+        if (a && b && typeof a === 'object' && typeof b === 'object')
+            return JSON.stringify(a) === JSON.stringify(b);
+        return a === b;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,84 @@
+﻿import nodeFs from 'node:fs';
+import nodePath from 'node:path';
+import {parseWmo} from './index.js';
+
+interface IBenchResult {
+    [designator: string]: number
+}
+
+(() => {
+
+    // Parse the arguments (the last non-option argument is the corpus path)
+    const args = process.argv.slice(2);
+    const option = (name: string): string | undefined =>
+        args.find(a => a.startsWith(`--${name}=`))?.substring(name.length + 3);
+    const benchPath = args.filter(a => !a.startsWith('--')).pop();
+    if (!benchPath)
+        throw new Error('Please provide a path to a benchmark corpus');
+    const iterations = parseInt(option('iterations') ?? '') || 100;
+    const tolerance = parseFloat(option('tolerance') ?? '') || 10;
+
+    // Method to recursively find the corpus text files
+    const getFiles = (dir: string): string[] => nodeFs.readdirSync(dir, {withFileTypes: true}).flatMap(f => {
+        const pt = nodePath.join(f.parentPath, f.name);
+        return f.isDirectory() ? getFiles(pt) : nodePath.extname(f.name) === '.txt' ? [pt] : [];
+    });
+
+    // Load the corpus up front, so only the parsing is timed. Files that fail to parse are not benchmarked.
+    const corpus = new Map<string, string[]>();
+    for (const file of getFiles(benchPath)) {
+        const text = nodeFs.readFileSync(file).toString();
+        try {
+            const designator = parseWmo(text).header.designator;
+            corpus.set(designator, [...corpus.get(designator) ?? [], text]);
+        } catch(err) {
+            console.warn(`Corpus file ${file} does not parse. Skipping. ${err}`);
+        }
+    }
+    if (corpus.size <= 0)
+        throw new Error(`No corpus files found in ${benchPath}`);
+
+    // Time each designator separately, so a regression can be traced to a parser
+    const results: IBenchResult = {};
+    let totalProducts = 0;
+    let totalTime = 0;
+    console.log(`Running ${iterations} iterations of ${[...corpus.values()].flat().length} products...`);
+    for (const [designator, texts] of [...corpus].sort((a, b) => a[0].localeCompare(b[0]))) {
+        const start = process.hrtime.bigint();
+        for (let i = 0; i < iterations; ++i) {
+            for (const text of texts)
+                parseWmo(text);
+        }
+        const seconds = Number(process.hrtime.bigint() - start) / 1e9;
+
+        const products = texts.length * iterations;
+        totalProducts += products;
+        totalTime += seconds;
+        results[designator] = Math.round(products / seconds);
+        console.log(`${designator.padEnd(8)}: ${results[designator].toString().padStart(10)} products/sec`);
+    }
+    results['TOTAL'] = Math.round(totalProducts / totalTime);
+    console.log(''.padStart(50, '='));
+    console.log(`${'TOTAL'.padEnd(8)}: ${results['TOTAL'].toString().padStart(10)} products/sec`);
+
+    // Compare to a previous run, failing if the throughput dropped by more than the tolerance (in percent)
+    const baselineFile = option('baseline');
+    if (baselineFile && nodeFs.existsSync(baselineFile)) {
+        const baseline = JSON.parse(nodeFs.readFileSync(baselineFile).toString()) as IBenchResult;
+        for (const [designator, rate] of Object.entries(results)) {
+            const previous = baseline[designator];
+            if (!previous)
+                continue;
+            const change = (rate - previous) / previous * 100;
+            const regressed = change < -tolerance;
+            if (regressed)
+                process.exitCode = 1;
+            console.log(`${regressed ? '[FAIL]' : '[PASS]'} ${designator.padEnd(8)}: ${change >= 0 ? '+' : ''}${change.toFixed(1)}% vs baseline (${previous} products/sec)`);
+        }
+    }
+
+    // Save the results to use as a future baseline
+    const saveFile = option('save');
+    if (saveFile)
+        nodeFs.writeFileSync(saveFile, JSON.stringify(results, null, 2));
+})();
\ No newline at end of file
@@ -5,38 +5,24 @@
  *
  * NOTE: This is not an official NWS/WMO library.
  *
- * A helper utility that parses the provided text file or stream into JSON.
+ * A helper utility that parses the provided text file or stream into JSON. When the input contains many bulletins (i.e.
+ * a feed or archive), each is printed as it is parsed, one per line (the indent is only used for a single bulletin). Use
+ * the --workers=N option to parse the bulletins across N worker threads (the output order is unchanged).
  *
  * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
  * Released under the MIT License.
  */
 
 import {existsSync, createReadStream, ReadStream} from "node:fs";
-import {WmoFile} from '../WmoFile.js';
-
-function readFromStream(stream: ReadStream | NodeJS.ReadStream): Promise<string> {
-    return new Promise((resolve, reject) => {
-        const chunks: Array<Buffer<ArrayBufferLike>> = [];
-
-        stream.on('data', (chunk) => {
-            chunks.push(typeof chunk === 'string' ? Buffer.from(chunk, 'utf8') : chunk);
-        });
-
-        stream.on('end', () => {
-            resolve(Buffer.concat(chunks).toString());
-        });
-
-        stream.on('error', (err) => {
-            reject(err);
-        });
-    });
-}
+import {WmoBatchParser} from '../WmoBatch.js';
+import {IWmoSplitResult, streamWmo} from '../WmoSplitter.js';
 
 // First read from stdin
 (async () => {
     // Get input (based on args)
     let inputStream: ReadStream | NodeJS.ReadStream;
-    const args = process.argv;
+    const args = process.argv.filter(a => !a.startsWith('--'));
+    const workers = parseInt(process.argv.find(a => a.startsWith('--workers='))?.substring(10) ?? '') || 0;
 
     // Check if a file was given
     if (args.length >= 3 && args[2]) {
@@ -52,22 +38,46 @@ function readFromStream(stream: ReadStream | NodeJS.ReadStream): Promise<string>
         inputStream = process.stdin;
     }
 
-    // Read from stream
-    const input = await readFromStream(inputStream);
+    // Determine if pretty option provided
+    const indent = args.length >= 4 && args[3] ? parseInt(args[3]) || args[3] : undefined;
+
+    // A single file is printed as before, but once a second bulletin is found, each is printed on its own line
+    let first: IWmoSplitResult | null = null;
+    let multiple = false;
+    const write = (result: IWmoSplitResult) => {
+        if (result.error) {
+            // Report the failed bulletin and keep going, so one bad bulletin does not stop the stream
+            console.error(`Bulletin ${result.index + 1}: ${result.error.message}`);
+            process.exitCode = 1;
+            return;
+        }
+        // The indent is ignored, so each bulletin stays on its own line
+        process.stdout.write(JSON.stringify(result.file) + '\n');
+    };
+
+    // Parse each bulletin as it is read from the stream (optionally using worker threads)
+    const batch = workers > 0 ? new WmoBatchParser({concurrency: workers}) : null;
+    for await (const result of batch ? batch.stream(inputStream) : streamWmo(inputStream)) {
+        if (!first) {
+            first = result;
+            continue;
+        }
+        if (!multiple) {
+            multiple = true;
+            write(first);
+        }
+        write(result);
+    }
+    await batch?.close();
 
     // If input is empty, throw error
-    if (!input || input.length <= 0)
+    if (!first)
         throw new Error("No input text given");
 
-    // Parse the file
-    const file = new WmoFile(input);
-
-    // Determine if pretty option provided
-    if (args.length >= 4 && args[3]) {
-        process.stdout.write(JSON.stringify(file, null, parseInt(args[3]) || args[3]));
-        return;
+    // Only a single file was given, so parse errors are thrown and the JSON has no trailing new line
+    if (!multiple) {
+        if (first.error)
+            throw first.error;
+        process.stdout.write(JSON.stringify(first.file, null, indent));
     }
-
-    // Otherwise, print condensed JSON
-    process.stdout.write(JSON.stringify(file));
-})();
+})();
\ No newline at end of file
@@ -0,0 +1,38 @@
+﻿#!/usr/bin/env node
+
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * A helper utility that writes the JSON Schema documents for the WMO file JSON and every registered message parser.
+ * If a directory is given, each schema is written to <name>.schema.json, otherwise all schemas are printed.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {existsSync, mkdirSync, writeFileSync} from "node:fs";
+import nodePath from "node:path";
+import {wmoSchemas} from '../index.js';
+
+(() => {
+    const schemas = wmoSchemas();
+    const args = process.argv;
+
+    // If no directory was given, print all schemas keyed by name
+    if (args.length < 3 || !args[2]) {
+        process.stdout.write(JSON.stringify(schemas, null, 2));
+        return;
+    }
+
+    // Otherwise, write each schema to its own file
+    const dir = args[2];
+    if (!existsSync(dir))
+        mkdirSync(dir, {recursive: true});
+    for (const [name, schema] of Object.entries(schemas)) {
+        const path = nodePath.join(dir, `${name}.schema.json`);
+        writeFileSync(path, JSON.stringify(schema, null, 2));
+        console.error(`Wrote ${path}`);
+    }
+})();
\ No newline at end of file
@@ -13,9 +13,112 @@
  * Released under the MIT License.
  */
 
-import {IWmoOptions} from './WmoInterfaces.js';
-import {WmoFile} from './WmoFile.js';
+import {IWmoOptions, WmoMessageParser} from './WmoInterfaces.js';
+import {IWmoFile, WmoFile} from './WmoFile.js';
+import {WmoMessage} from './WmoMessage.js';
+import {IWmoParserRegistration, WmoParserRegistry} from './WmoParserRegistry.js';
+import {IWmoJsonSchema, IWmoSchemaResult} from './WmoSchema.js';
+import {messageParsers, WmoMessageOf} from './parsers/index.js';
+
+// Options that determine the message type (either the parser to use, or the expected designator)
+type WmoParserOptions<T extends WmoMessage> = IWmoOptions & {messageParser: WmoMessageParser<T>};
+type WmoDesignatorOptions<D extends string> = IWmoOptions & {designator: D};
+
+// noinspection JSUnusedGlobalSymbols
+export function parseWmo<T extends WmoMessage>(wmoText: string, options: WmoParserOptions<T>): WmoFile<T>;
+export function parseWmo<D extends string>(wmoText: string, options: WmoDesignatorOptions<D>): WmoFile<WmoMessageOf<D>>;
+export function parseWmo(wmoText: string, options?: IWmoOptions): WmoFile;
+export function parseWmo(wmoText: string, options?: IWmoOptions): WmoFile {
+    return new WmoFile(wmoText, options);
+}
+
+// noinspection JSUnusedGlobalSymbols
+export function parseWmoJson<T extends WmoMessage>(json: IWmoFile | string, options: WmoParserOptions<T>): WmoFile<T>;
+export function parseWmoJson<D extends string>(json: IWmoFile | string, options: WmoDesignatorOptions<D>): WmoFile<WmoMessageOf<D>>;
+export function parseWmoJson(json: IWmoFile | string, options?: IWmoOptions): WmoFile;
+export function parseWmoJson(json: IWmoFile | string, options?: IWmoOptions): WmoFile {
+    return WmoFile.fromJSON(typeof json === 'string' ? JSON.parse(json) as IWmoFile : json, options);
+}
+
+// noinspection JSUnusedGlobalSymbols
+export const validateWmoJson = (json: unknown, options?: IWmoOptions): IWmoSchemaResult =>
+    WmoFile.validateJSON(json, options);
+
+// noinspection JSUnusedGlobalSymbols
+export const wmoSchemas = (registry: WmoParserRegistry = messageParsers): {[name: string]: IWmoJsonSchema} => {
+    // The generic file schema, followed by the file schema of each registered message parser
+    const schemas: {[name: string]: IWmoJsonSchema} = {WmoFile: WmoFile.schema()};
+    for (const r of registry.registrations()) {
+        if (r.parser.schema && !schemas[r.parser.name])
+            schemas[r.parser.name] = WmoFile.schema(r.parser);
+    }
+    return schemas;
+};
+
+// noinspection JSUnusedGlobalSymbols
+export const registerParser = (registration: IWmoParserRegistration): void => {
+    messageParsers.register(registration);
+};
 
 // noinspection JSUnusedGlobalSymbols
-export const parseWmo = (wmoText: string, options?: IWmoOptions): WmoFile =>
-    new WmoFile(wmoText, options);
\ No newline at end of file
+export {WmoErrorCode, WmoParseError} from './WmoParseError.js';
+export type {IWmoParseError} from './WmoParseError.js';
+export {frameWmo, iterateWmo, splitWmo, streamWmo, WmoFramer} from './WmoSplitter.js';
+export type {IWmoSplitResult, WmoStreamSource} from './WmoSplitter.js';
+export {parseWmoBatch, WmoBatchParser} from './WmoBatch.js';
+export type {IWmoBatchItem, IWmoBatchOptions} from './WmoBatch.js';
+export {WmoSegmentAssembler} from './WmoSegmentAssembler.js';
+export type {IWmoAssembledResult, IWmoSegmentAssemblerOptions, IWmoSegmentSet} from './WmoSegmentAssembler.js';
+export {WmoVersionStore} from './WmoVersionStore.js';
+export type {IWmoFieldChange, IWmoProductVersion, IWmoVersionChain, WmoChangeKind} from './WmoVersionStore.js';
+export {WmoSchema} from './WmoSchema.js';
+export type {IWmoJsonSchema, IWmoSchemaError, IWmoSchemaResult, WmoSchemaType} from './WmoSchema.js';
+export {WmoParserRegistry} from './WmoParserRegistry.js';
+export type {IWmoParserRegistration, WmoParserPattern} from './WmoParserRegistry.js';
+export {messageParsers, isHdob, isHls, isMetar, isRecco, isTaf, isTcd, isTcm, isTcp, isTcpod, isTcv, isTemp, isTempDrop, isTwo, isVdm} from './parsers/index.js';
+export type {IWmoMessageTypes, WmoMessageOf} from './parsers/index.js';
+export {WmoFile} from './WmoFile.js';
+export type {IWmoFile} from './WmoFile.js';
+export {WmoDate} from './WmoDate.js';
+export type {IWmoDate, IWmoDateRange} from './WmoDate.js';
+export {WmoDateResolver} from './WmoDateResolver.js';
+export type {IWmoDateResolveOptions, IWmoPartialDate, WmoDateBias} from './WmoDateResolver.js';
+export {WmoTimeZone} from './WmoTimeZone.js';
+export type {IWmoTimeZone, IWmoTimeZoneMatch} from './WmoTimeZone.js';
+export {WmoUgc, WmoUgcSegment, WmoVtec} from './WmoUgc.js';
+export type {IWmoUgc, IWmoUgcSegment, IWmoVtec} from './WmoUgc.js';
+export {WmoHeader} from './WmoHeader.js';
+export type {IWmoHeader} from './WmoHeader.js';
+export {WmoMessage} from './WmoMessage.js';
+export type {IWmoMessage, WmoMessageJson} from './WmoMessage.js';
+export type {IWmoOptions, WmoMessageParser} from './WmoInterfaces.js';
+export {ABXX20} from './parsers/ab/ABXX20.js';
+export type {IAbxx20} from './parsers/ab/ABXX20.js';
+export {FTXX} from './parsers/ft/FTXX.js';
+export type {IFtxx} from './parsers/ft/FTXX.js';
+export {NOUS42} from './parsers/no/NOUS42.js';
+export type {INous42} from './parsers/no/NOUS42.js';
+export {SAXX} from './parsers/sa/SAXX.js';
+export type {ISaxx} from './parsers/sa/SAXX.js';
+export {URXX10_11} from './parsers/ur/URXX10_11.js';
+export type {IUrxx10_11} from './parsers/ur/URXX10_11.js';
+export {URXX12} from './parsers/ur/URXX12.js';
+export type {IUrxx12} from './parsers/ur/URXX12.js';
+export {URXX15} from './parsers/ur/URXX15.js';
+export type {IUrxx15} from './parsers/ur/URXX15.js';
+export {USXX} from './parsers/us/USXX.js';
+export type {IUsxx} from './parsers/us/USXX.js';
+export {UZXX13} from './parsers/uz/UZXX13.js';
+export type {IUzxx13} from './parsers/uz/UZXX13.js';
+export {WtxxHeader} from './parsers/wt/WtxxHeader.js';
+export type {IWtxxHeader} from './parsers/wt/WtxxHeader.js';
+export {WTUS8X} from './parsers/wt/WTUS8X.js';
+export type {IWtus8x} from './parsers/wt/WTUS8X.js';
+export {WTXX2X} from './parsers/wt/WTXX2X.js';
+export type {IWtxx2x} from './parsers/wt/WTXX2X.js';
+export {WTXX3X} from './parsers/wt/WTXX3X.js';
+export type {IWtxx3x} from './parsers/wt/WTXX3X.js';
+export {WTXX4X} from './parsers/wt/WTXX4X.js';
+export type {IWtxx4x} from './parsers/wt/WTXX4X.js';
+export {WTXX8X} from './parsers/wt/WTXX8X.js';
+export type {IWtxx8x} from './parsers/wt/WTXX8X.js';
\ No newline at end of file
@@ -9,11 +9,13 @@
  * Released under the MIT License.
  */
 
-import {IWmoObject} from "../../WmoInterfaces.js";
+import {IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
 import {IWmoDate, WmoDate} from '../../WmoDate.js';
 import {WmoFile} from "../../WmoFile.js";
 import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
 import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode, WmoParseError} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
 
 export interface IAbxx20 extends IWmoMessage {
 	issuedBy: string;
@@ -42,7 +44,7 @@ export class ABXX20 extends WmoMessage {
 
 		// Get issued by line
 		// NWS National Hurricane Center Miami FL
-		this.issuedBy = p.assert('Expected TWO issued by line')[0];
+		this.issuedBy = p.assert('Expected TWO issued by line', undefined, WmoErrorCode.missingTwoIssuer)[0];
 
 		// Sometimes there is a separate issued by
 		const secondaryIssuedBy = p.extract(/Issued by (.*?)$/);
@@ -51,12 +53,12 @@ export class ABXX20 extends WmoMessage {
 
 		// Parse issued date
 		// 200 AM EDT Fri Oct 18 2024
-		const headerDate = p.assert('Expected date line')[0];
+		const headerDate = p.assert('Expected date line', undefined, WmoErrorCode.missingTwoDate)[0];
 		this.issuedOn = new WmoDate(headerDate, 'hmm a XXX EEE MMM dd yyyy');
 		
 		// For the North Atlantic...Caribbean Sea and the Gulf of Mexico:
 		this.for = p.extractUntil(/^For the.*$/);
-		this.for += p.assert('Expected TWO "for" line', /^For the.*$/)[0];
+		this.for += p.assert('Expected TWO "for" line', /^For the.*$/, WmoErrorCode.missingTwoFor)[0];
 
 		// If next line starts with "Active Systems:"
 		const activeLine = p.extract(/Active Systems:/);
@@ -68,10 +70,12 @@ export class ABXX20 extends WmoMessage {
 		// Extract prefaced additional remarks
 		this.remark = p.extractUntil(/^\s*\d+\..*$/);
 
-		// Extract storms
+		// Extract storms (when lenient, an invalid area is skipped up to the next area)
 		let next = p.peek();
 		while(next && next.match(/^\s*\d+\..*$/)) {
-			this.areasOfInterest.push(new Abxx20AreaOfInterest(p));
+			const area = p.recover(() => new Abxx20AreaOfInterest(p), /^\s*\d+\..*$|\$\$/);
+			if (area)
+				this.areasOfInterest.push(area);
 			next = p.peek();
 		}
 
@@ -84,6 +88,33 @@ export class ABXX20 extends WmoMessage {
 		}
 	}
 	
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			issuedBy: WmoSchema.string(),
+			issuedOn: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			for: WmoSchema.string(),
+			active: text,
+			areas: WmoSchema.array(Abxx20AreaOfInterest.schema()),
+			remark: text
+		});
+	}
+
+	public static fromJSON(json: IAbxx20, wmoFile: WmoFile): ABXX20 {
+		if (!json.issuedOn)
+			throw new WmoParseError('Expected the TWO JSON to have an issued date', {code: WmoErrorCode.missingTwoDate});
+
+		return Object.assign(Object.create(ABXX20.prototype) as ABXX20, {
+			wmoFile: wmoFile,
+			issuedBy: json.issuedBy,
+			issuedOn: WmoDate.fromJSON(json.issuedOn),
+			for: json.for,
+			active: json.active,
+			areasOfInterest: json.areas.map(a => Abxx20AreaOfInterest.fromJSON(a)),
+			remark: json.remark
+		});
+	}
+	
 	public override toJSON(): IAbxx20 {
 		return {
 			issuedBy: this.issuedBy,
@@ -107,6 +138,7 @@ export interface IAbxx20AreaOfInterest {
 	text: string | null;
 	twoDay: IFormationChance | null;
 	sevenDay: IFormationChance | null;
+	span?: IWmoSourceSpan;
 }
 
 export class Abxx20AreaOfInterest implements IWmoObject {
@@ -116,10 +148,13 @@ export class Abxx20AreaOfInterest implements IWmoObject {
 	public readonly text: string | null = null;
 	public readonly twoDay: IFormationChance | null = null;
 	public readonly sevenDay: IFormationChance | null = null;
+	public readonly span: IWmoSourceSpan | null = null;
 
 	public constructor(p: WmoParser) {
 		// Extract title (and optional id)
-		const titleLine = p.assert('Expected storm title line', /^\s*\d+\.\s+(.*?)(?:\s+\((.*?)\))?:?\s*$/);
+		const start = p.mark();
+		const titleLine = p.assert('Expected storm title line', /^\s*\d+\.\s+(.*?)(?:\s+\((.*?)\))?:?\s*$/,
+			WmoErrorCode.missingTwoArea);
 		this.title = titleLine[1] ?? null;
 		this.id = titleLine[2] ?? null;
 
@@ -129,6 +164,9 @@ export class Abxx20AreaOfInterest implements IWmoObject {
 		// Extract 2 day and 7 day chances
 		this.twoDay = this.extractChance(p, 2);
 		this.sevenDay = this.extractChance(p, 7);
+
+		// Record where the area was in the source (if enabled)
+		this.span = p.span(start);
 	}
 
 	private extractChance(p: WmoParser, days: number): IFormationChance {
@@ -138,20 +176,45 @@ export class Abxx20AreaOfInterest implements IWmoObject {
 
 		const exp = days === 2 ? '48\\s+hours' : `${days}\\s+days`;
 		const match = p.assert('Expected ' + days + '-day chance line',
-			new RegExp('.*Formation chance.*' + exp + '\\.+(.*?)\\.+\\s*(?:near\\s+)?(\\d+)\\s+percent', 'i'));
+			new RegExp('.*Formation chance.*' + exp + '\\.+(.*?)\\.+\\s*(?:near\\s+)?(\\d+)\\s+percent', 'i'),
+			WmoErrorCode.missingTwoChance);
 		return {
 			level: match[1] ?? 'unknown',
 			chance: parseInt(match[2] ?? 'NaN')
 		};
 	}
 	
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		const chance = WmoSchema.nullable(WmoSchema.object({
+			level: WmoSchema.string(),
+			chance: WmoSchema.number()
+		}));
+		return WmoSchema.object({
+			title: text,
+			id: text,
+			text: text,
+			twoDay: chance,
+			sevenDay: chance,
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+	
+	public static fromJSON(json: IAbxx20AreaOfInterest): Abxx20AreaOfInterest {
+		return Object.assign(Object.create(Abxx20AreaOfInterest.prototype) as Abxx20AreaOfInterest, {
+			...json,
+			span: json.span ?? null
+		});
+	}
+	
 	public toJSON(): IAbxx20AreaOfInterest {
 		return {
 			title: this.title,
 			id: this.id,
 			text: this.text,
 			twoDay: this.twoDay,
-			sevenDay: this.sevenDay
+			sevenDay: this.sevenDay,
+			...(this.span ? {span: this.span} : {})
 		};
 	}
 }
@@ -0,0 +1,388 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Terminal Aerodrome Forecast (TAF) bulletins (FTxx) into the forecast of each station, which is made up of
+ * the base forecast and its FM, TEMPO, BECMG and PROB change groups.
+ * Details can be found in NWS Directive 10-813 and the WMO Manual on Codes (FM-51).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, IWmoDateRange, WmoDate} from '../../WmoDate.js';
+import {WmoDateBias, WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {ISaxxSkyLayer, ISaxxVisibility, ISaxxWeather, ISaxxWind, SaxxCodes} from "../sa/SaxxCodes.js";
+
+// The start of each forecast (i.e. TAF AMD KTPA 081740Z 0818/0918 or KXYZ 081740Z NIL)
+const forecastStart = /^(?:TAF\s+)?(?:(AMD|COR)\s+)?([A-Z][A-Z0-9]{3})\s+(?:(\d{2})(\d{2})(\d{2})Z\s+)?(?:(\d{2})(\d{2})\/(\d{2})(\d{2})|NIL)(?:\s|=|$)/;
+
+// Resolves a day and hour (where 24 is the end of the day) near the reference
+function resolveHour(day: string | undefined, hour: string | undefined, minute: string | undefined, reference: WmoDate,
+					 bias: WmoDateBias): WmoDate {
+	const h = parseInt(hour ?? 'NaN');
+	const date = WmoDateResolver.resolve({
+		day: parseInt(day ?? 'NaN'),
+		hour: h === 24 ? 23 : h,
+		minute: parseInt(minute ?? '0')
+	}, reference, {bias: bias});
+	return h === 24 ? WmoDate.fromDate(new Date(date.date.getTime() + 3600000)) : date;
+}
+
+// Resolves a ddhh/ddhh validity range, where the start is resolved by the given bias and the end follows the start
+function resolveRange(m: RegExpMatchArray, index: number, reference: WmoDate, bias: WmoDateBias): IWmoDateRange {
+	const start = resolveHour(m[index], m[index + 1], undefined, reference, bias);
+	return {
+		start: start,
+		end: resolveHour(m[index + 2], m[index + 3], undefined, start, 'forward')
+	};
+}
+
+export interface IFtxx extends IWmoMessage {
+	forecasts: IFtxxForecast[];
+}
+
+export class FTXX extends WmoMessage {
+
+	public readonly forecasts: FtxxForecast[] = [];
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Helper parser variable
+		const p = wmoFile.parser;
+
+		// Amended (AAx) and corrected (CCx) bulletins flag all their forecasts
+		let amendment = wmoFile.header.amendment !== null;
+		let correction = wmoFile.header.correction !== null;
+		for (let next = p.peek(); next !== undefined && next !== ';' && next !== 'NNNN'; next = p.peek()) {
+			// TAF (or TAF AMD / TAF COR) on its own line
+			const collective = p.extract(/^TAF(?:\s+(AMD|COR))?$/);
+			if (collective) {
+				amendment ||= collective[1] === 'AMD';
+				correction ||= collective[1] === 'COR';
+				continue;
+			}
+			if (!next.trim()) {
+				p.skipEmpty();
+				continue;
+			}
+
+			const forecast = p.recover(() => new FtxxForecast(p, wmoFile.header.datetime, amendment, correction),
+				forecastStart);
+			if (forecast)
+				this.forecasts.push(forecast);
+		}
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			forecasts: WmoSchema.array(FtxxForecast.schema())
+		});
+	}
+
+	public static fromJSON(json: IFtxx, wmoFile: WmoFile): FTXX {
+		return Object.assign(Object.create(FTXX.prototype) as FTXX, {
+			wmoFile: wmoFile,
+			forecasts: json.forecasts.map(f => FtxxForecast.fromJSON(f))
+		});
+	}
+
+	public override toJSON(): IFtxx {
+		return {
+			forecasts: this.forecasts.map(f => f.toJSON())
+		};
+	}
+}
+
+export interface IFtxxForecast {
+	station: string;
+	issued: IWmoDate | null;
+	valid: IWmoDateRange | null;
+	amendment: boolean;
+	correction: boolean;
+	cancelled: boolean;
+	nil: boolean;
+	periods: IFtxxPeriod[];
+	text: string;
+	span?: IWmoSourceSpan;
+}
+
+export class FtxxForecast implements IWmoObject {
+
+	public readonly station: string;
+	public readonly issued: WmoDate | null = null;
+	public readonly valid: IWmoDateRange | null = null;
+	public readonly amendment: boolean;
+	public readonly correction: boolean;
+	public readonly cancelled: boolean;
+	public readonly nil: boolean;
+	public readonly periods: FtxxPeriod[] = [];
+	public readonly text: string;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, reference: WmoDate, amendment: boolean, correction: boolean) {
+		// TAF AMD KTPA 081740Z 0818/0918 09015G25KT P6SM VCSH BKN025
+		//     111 2222 334455 6677 8899
+		const start = p.mark();
+		const first = p.assert('Expected a TAF forecast', forecastStart, WmoErrorCode.badTafForecast);
+
+		// The forecast continues on the following lines until it ends with a = (or the next forecast starts)
+		let text = first.input ?? '';
+		for (let next = p.peek(); !text.match(/=\s*$/) && next && !next.match(forecastStart) && !next.match(/^(;|NNNN|TAF(\s+(AMD|COR))?)$/); next = p.peek())
+			text += ` ${p.extract()?.[0] ?? ''}`;
+		this.text = text.replace(/=\s*$/, '').trim();
+
+		this.station = first[2] ?? '';
+		this.amendment = amendment || first[1] === 'AMD';
+		this.correction = correction || first[1] === 'COR';
+		this.nil = !first[6];
+		if (first[3]) {
+			this.issued = WmoDateResolver.resolve({
+				day: parseInt(first[3]),
+				hour: parseInt(first[4] ?? 'NaN'),
+				minute: parseInt(first[5] ?? 'NaN')
+			}, reference, {bias: 'backward', tolerance: 60});
+		}
+		if (!this.nil)
+			this.valid = resolveRange(first, 6, this.issued ?? reference, 'nearest');
+
+		// Split the rest of the forecast into the base forecast and each change group
+		const groups = this.text.substring(first[0].trimEnd().length).trim().split(/\s+/).filter(g => g);
+		this.cancelled = groups[0] === 'CNL';
+		if (this.nil || this.cancelled) {
+			this.span = p.span(start);
+			return;
+		}
+
+		const periods: string[][] = [[]];
+		for (let i = 0; i < groups.length; ++i) {
+			const group = groups[i] ?? '';
+			if (group.match(/^(FM\d{6}|PROB\d{2})$/) || (group.match(/^(TEMPO|BECMG)$/) && !groups[i - 1]?.match(/^PROB\d{2}$/)))
+				periods.push([]);
+			periods[periods.length - 1]?.push(group);
+		}
+
+		// The base forecast (and each FM group) lasts until the next FM group, or the end of the forecast
+		let base: IWmoDateRange | null = null;
+		for (const period of periods) {
+			const current = new FtxxPeriod(p, period, this.valid?.start ?? reference, this.valid);
+			if (current.type === 'BASE' || current.type === 'FM') {
+				if (base && current.valid)
+					base.end = current.valid.start;
+				base = current.valid;
+			}
+			this.periods.push(current);
+		}
+
+		// Record where the forecast was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			station: WmoSchema.string(),
+			issued: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			valid: WmoSchema.nullable(WmoSchema.ref('WmoDateRange')),
+			amendment: WmoSchema.boolean(),
+			correction: WmoSchema.boolean(),
+			cancelled: WmoSchema.boolean(),
+			nil: WmoSchema.boolean(),
+			periods: WmoSchema.array(FtxxPeriod.schema()),
+			text: WmoSchema.string(),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IFtxxForecast): FtxxForecast {
+		return Object.assign(Object.create(FtxxForecast.prototype) as FtxxForecast, {
+			...json,
+			issued: WmoDate.fromJSON(json.issued),
+			valid: WmoDate.rangeFromJSON(json.valid),
+			periods: json.periods.map(p => FtxxPeriod.fromJSON(p)),
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IFtxxForecast {
+		return {
+			station: this.station,
+			issued: this.issued?.toJSON() ?? null,
+			valid: this.valid,
+			amendment: this.amendment,
+			correction: this.correction,
+			cancelled: this.cancelled,
+			nil: this.nil,
+			periods: this.periods.map(p => p.toJSON()),
+			text: this.text,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
+
+export interface IFtxxWindShear {
+	height: number;
+	wind: ISaxxWind | null;
+}
+
+export interface IFtxxPeriod {
+	type: string;
+	probability: number | null;
+	valid: IWmoDateRange | null;
+	wind: ISaxxWind | null;
+	visibility: ISaxxVisibility | null;
+	weather: ISaxxWeather[];
+	noSignificantWeather: boolean;
+	cavok: boolean;
+	sky: ISaxxSkyLayer[];
+	windShear: IFtxxWindShear | null;
+	unparsed: string[];
+	text: string;
+}
+
+export class FtxxPeriod implements IWmoObject {
+
+	public readonly type: string;
+	public readonly probability: number | null = null;
+	public readonly valid: IWmoDateRange | null = null;
+	public readonly wind: ISaxxWind | null = null;
+	public readonly visibility: ISaxxVisibility | null = null;
+	public readonly weather: ISaxxWeather[] = [];
+	public readonly noSignificantWeather: boolean = false;
+	public readonly cavok: boolean = false;
+	public readonly sky: ISaxxSkyLayer[] = [];
+	public readonly windShear: IFtxxWindShear | null = null;
+	public readonly unparsed: string[] = [];
+	public readonly text: string;
+
+	public constructor(p: WmoParser, groups: string[], reference: WmoDate, forecast: IWmoDateRange | null) {
+		this.text = groups.join(' ');
+		let i = 0;
+
+		// FM081800 - From the given day, hour and minute (until the next FM group)
+		const from = groups[0]?.match(/^FM(\d{2})(\d{2})(\d{2})$/);
+
+		// PROB30 (TEMPO) 0903/0906, TEMPO 0821/0824 or BECMG 0912/0914 - A change during the given hours
+		const probability = groups[0]?.match(/^PROB(\d{2})$/);
+		const change = groups[probability ? 1 : 0]?.match(/^(TEMPO|BECMG)$/);
+		const count = (probability ? 1 : 0) + (change ? 1 : 0);
+		const range = groups[count]?.match(/^(\d{2})(\d{2})\/(\d{2})(\d{2})$/);
+
+		if (from) {
+			this.type = 'FM';
+			this.valid = {start: resolveHour(from[1], from[2], from[3], reference, 'forward'), end: forecast?.end ?? null};
+			i = 1;
+		} else if (probability || change) {
+			this.type = change?.[1] ?? 'PROB';
+			this.probability = probability ? parseInt(probability[1] ?? 'NaN') : null;
+			i = count;
+			if (range) {
+				this.valid = resolveRange(range, 1, reference, 'forward');
+				++i;
+			} else {
+				if (!p.isLenient())
+					p.error(`Invalid TAF change group "${this.text}"`, {code: WmoErrorCode.badTafForecast});
+				p.warn(`Invalid TAF change group "${this.text}"`, WmoErrorCode.badTafForecast);
+			}
+		} else {
+			this.type = 'BASE';
+			this.valid = forecast ? {...forecast} : null;
+		}
+
+		// The forecast wind, visibility, weather and sky layers
+		for (; i < groups.length; ++i) {
+			const group = groups[i] ?? '';
+			if (group === 'NSW') {
+				this.noSignificantWeather = true;
+				continue;
+			}
+			if (group === 'CAVOK') {
+				this.cavok = true;
+				continue;
+			}
+
+			const wind = SaxxCodes.wind(group);
+			if (wind && !this.wind) {
+				this.wind = wind;
+				continue;
+			}
+			const visibility = !this.visibility && !this.sky.length ? SaxxCodes.visibility(groups, i) : null;
+			if (visibility) {
+				this.visibility = visibility.visibility;
+				i += visibility.count - 1;
+				continue;
+			}
+			const weather = SaxxCodes.weather(group);
+			if (weather) {
+				this.weather.push(weather);
+				continue;
+			}
+			const sky = SaxxCodes.sky(group);
+			if (sky) {
+				this.sky.push(sky);
+				continue;
+			}
+
+			// WS020/18040KT - Low-level wind shear at the height (in hundreds of feet)
+			const shear = group.match(/^WS(\d{3})\/(.*)$/);
+			if (shear) {
+				this.windShear = {height: parseInt(shear[1] ?? 'NaN') * 100, wind: SaxxCodes.wind(shear[2] ?? '')};
+				continue;
+			}
+
+			// Anything else (i.e. AMD NOT SKED remarks) is kept as is
+			this.unparsed.push(group);
+		}
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			type: WmoSchema.string(),
+			probability: WmoSchema.nullable(WmoSchema.number()),
+			valid: WmoSchema.nullable(WmoSchema.ref('WmoDateRange')),
+			wind: WmoSchema.nullable(SaxxCodes.windSchema()),
+			visibility: WmoSchema.nullable(SaxxCodes.visibilitySchema()),
+			weather: WmoSchema.array(SaxxCodes.weatherSchema()),
+			noSignificantWeather: WmoSchema.boolean(),
+			cavok: WmoSchema.boolean(),
+			sky: WmoSchema.array(SaxxCodes.skySchema()),
+			windShear: WmoSchema.nullable(WmoSchema.object({
+				height: WmoSchema.number(),
+				wind: WmoSchema.nullable(SaxxCodes.windSchema())
+			})),
+			unparsed: WmoSchema.array(WmoSchema.string()),
+			text: WmoSchema.string()
+		});
+	}
+
+	public static fromJSON(json: IFtxxPeriod): FtxxPeriod {
+		return Object.assign(Object.create(FtxxPeriod.prototype) as FtxxPeriod, {
+			...json,
+			valid: WmoDate.rangeFromJSON(json.valid)
+		});
+	}
+
+	public toJSON(): IFtxxPeriod {
+		return {
+			type: this.type,
+			probability: this.probability,
+			valid: this.valid,
+			wind: this.wind,
+			visibility: this.visibility,
+			weather: this.weather,
+			noSignificantWeather: this.noSignificantWeather,
+			cavok: this.cavok,
+			sky: this.sky,
+			windShear: this.windShear,
+			unparsed: this.unparsed,
+			text: this.text
+		};
+	}
+}
\ No newline at end of file
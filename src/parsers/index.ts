@@ -3,34 +3,149 @@
  *
  * NOTE: This is not an official NWS/WMO library.
  *
- * Array of all supported message parsers.
+ * Registry of all supported message parsers. Applications can register additional parsers (or override these) at
+ * runtime using the registry's register method.
  *
  * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
  * Released under the MIT License.
  */
 
-import {WmoMessage} from "../WmoMessage.js";
 import {WmoFile} from "../WmoFile.js";
+import {WmoMessage} from "../WmoMessage.js";
+import {WmoParserRegistry} from "../WmoParserRegistry.js";
 
-// TODO: Dynamic import of all sub-dir + js files
 import {ABXX20} from "./ab/ABXX20.js";
+import {FTXX} from "./ft/FTXX.js";
 import {NOUS42} from "./no/NOUS42.js";
+import {SAXX} from "./sa/SAXX.js";
 import {URXX10_11} from "./ur/URXX10_11.js";
+import {URXX12} from "./ur/URXX12.js";
 import {URXX15} from "./ur/URXX15.js";
+import {USXX} from "./us/USXX.js";
+import {UZXX13} from "./uz/UZXX13.js";
+import {WTUS8X} from "./wt/WTUS8X.js";
+import {WTXX2X} from "./wt/WTXX2X.js";
+import {WTXX3X} from "./wt/WTXX3X.js";
+import {WTXX4X} from "./wt/WTXX4X.js";
+import {WTXX8X} from "./wt/WTXX8X.js";
+
+export const messageParsers = new WmoParserRegistry()
+    // Tropical Weather Outlooks (NHC web text uses TTAA00)
+    .register({designator: 'AB??20', parser: ABXX20})
+    .register({designator: 'ACPN50', parser: ABXX20})
+    .register({designator: 'TTAA00', parser: ABXX20})
+
+    // Upper-air soundings (TEMP Parts A, B, C and D), where TTAA00 is only a sounding when the message is a TEMP part
+    // (or, when reading JSON, the message has the stations of a sounding)
+    .register({designator: 'US????', parser: USXX})
+    .register({designator: 'UK????', parser: USXX})
+    .register({designator: 'UL????', parser: USXX})
+    .register({designator: 'UE????', parser: USXX})
+    .register({designator: 'TTAA00', content: /^TT(AA|BB|CC|DD)\s/, parser: USXX,
+        json: m => typeof m === 'object' && m !== null && 'stations' in m})
+
+    // Surface observations (METAR and SPECI collectives)
+    .register({designator: 'SA????', parser: SAXX})
+    .register({designator: 'SP????', parser: SAXX})
+
+    // Terminal Aerodrome Forecasts (TAF)
+    .register({designator: 'FT????', parser: FTXX})
+
+    // Tropical Cyclone Plan of the Day
+    .register({designator: 'NOUS42', parser: NOUS42})
+
+    // Recon Observations (RECCO), Vortex Data Messages (VDM) and High-Density Observations (HDOB)
+    .register({designator: 'UR??10', parser: URXX10_11})
+    .register({designator: 'UR??11', parser: URXX10_11})
+    .register({designator: 'UR??12', parser: URXX12})
+    .register({designator: 'UR??15', parser: URXX15})
+
+    // Dropsonde observations (TEMP DROP)
+    .register({designator: 'UZ??13', parser: UZXX13})
+
+    // Tropical Cyclone Forecast/Advisories (TCM), Public Advisories (TCP) and Discussions (TCD)
+    .register({designator: 'WT??2?', parser: WTXX2X})
+    .register({designator: 'WT??3?', parser: WTXX3X})
+    .register({designator: 'WT??4?', parser: WTXX4X})
+
+    // Tropical Cyclone VTEC watch/warning products (TCV), where the WFO products and the Hurricane Local Statements
+    // (HLS) share the WTUS8x designators, so are found by their AWIPS identifier
+    .register({designator: 'WT??8?', parser: WTXX8X})
+
+    // AWIPS identifiers are checked first, since some designators are reused for different products
+    .register({awips: 'REPRPD', parser: NOUS42, priority: 1})
+    .register({awips: 'TWO*', parser: ABXX20, priority: 1})
+    .register({awips: 'TCM*', parser: WTXX2X, priority: 1})
+    .register({awips: 'TCP*', parser: WTXX3X, priority: 1})
+    .register({awips: 'TCD*', parser: WTXX4X, priority: 1})
+    .register({awips: 'TCV*', parser: WTXX8X, priority: 1})
+    .register({awips: 'HLS*', parser: WTUS8X, priority: 1});
+
+// The message each designator (or designator pattern) is parsed into, used to narrow files by designator. Applications
+// registering their own parsers can add to this using declaration merging.
+export interface IWmoMessageTypes {
+    [designator: `AB${string}20`]: ABXX20;
+    ACPN50: ABXX20;
+    TTAA00: ABXX20 | USXX;
+    [designator: `FT${string}`]: FTXX;
+    NOUS42: NOUS42;
+    [designator: `SA${string}`]: SAXX;
+    [designator: `SP${string}`]: SAXX;
+    [designator: `UR${string}10`]: URXX10_11;
+    [designator: `UR${string}11`]: URXX10_11;
+    [designator: `UR${string}12`]: URXX12;
+    [designator: `UR${string}15`]: URXX15;
+    [designator: `UZ${string}13`]: UZXX13;
+    [designator: `US${string}`]: USXX;
+    [designator: `UK${string}`]: USXX;
+    [designator: `UL${string}`]: USXX;
+    [designator: `UE${string}`]: USXX;
+    [designator: `WT${string}2${number}`]: WTXX2X;
+    [designator: `WT${string}3${number}`]: WTXX3X;
+    [designator: `WT${string}4${number}`]: WTXX4X;
+    [designator: `WT${string}8${number}`]: WTXX8X | WTUS8X;
+}
+
+export type WmoMessageOf<D extends string> = D extends keyof IWmoMessageTypes ? IWmoMessageTypes[D] : WmoMessage;
+
+export const isTwo = (file: WmoFile): file is WmoFile<ABXX20> =>
+    file.message instanceof ABXX20;
+
+export const isTaf = (file: WmoFile): file is WmoFile<FTXX> =>
+    file.message instanceof FTXX;
+
+export const isTcpod = (file: WmoFile): file is WmoFile<NOUS42> =>
+    file.message instanceof NOUS42;
+
+export const isMetar = (file: WmoFile): file is WmoFile<SAXX> =>
+    file.message instanceof SAXX;
+
+export const isRecco = (file: WmoFile): file is WmoFile<URXX10_11> =>
+    file.message instanceof URXX10_11;
+
+export const isVdm = (file: WmoFile): file is WmoFile<URXX12> =>
+    file.message instanceof URXX12;
+
+export const isHdob = (file: WmoFile): file is WmoFile<URXX15> =>
+    file.message instanceof URXX15;
+
+export const isTemp = (file: WmoFile): file is WmoFile<USXX> =>
+    file.message instanceof USXX;
+
+export const isTempDrop = (file: WmoFile): file is WmoFile<UZXX13> =>
+    file.message instanceof UZXX13;
+
+export const isTcm = (file: WmoFile): file is WmoFile<WTXX2X> =>
+    file.message instanceof WTXX2X;
+
+export const isTcp = (file: WmoFile): file is WmoFile<WTXX3X> =>
+    file.message instanceof WTXX3X;
+
+export const isTcd = (file: WmoFile): file is WmoFile<WTXX4X> =>
+    file.message instanceof WTXX4X;
+
+export const isTcv = (file: WmoFile): file is WmoFile<WTXX8X> =>
+    file.message instanceof WTXX8X;
 
-export const messageParsers: { [key: string]: new(wmoFile: WmoFile) => WmoMessage } = {
-    "ABNT20": ABXX20,
-    "ABPZ20": ABXX20,
-    "ACPN50": ABXX20,
-    "TTAA00": ABXX20,
-    "NOUS42": NOUS42,
-    "URNT10": URXX10_11,
-    "URNT11": URXX10_11,
-    "URPA10": URXX10_11,
-    "URPA11": URXX10_11,
-    "URPN10": URXX10_11,
-    "URPN11": URXX10_11,
-    "URNT15": URXX15,
-    "URPA15": URXX15,
-    "URPN15": URXX15
-};
\ No newline at end of file
+export const isHls = (file: WmoFile): file is WmoFile<WTUS8X> =>
+    file.message instanceof WTUS8X;
\ No newline at end of file
@@ -11,14 +11,26 @@
  * Released under the MIT License.
  */
 
-import {IWmoCoordinates, IWmoObject} from "../../WmoInterfaces.js";
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
 import {IWmoDate, IWmoDateRange, WmoDate} from '../../WmoDate.js';
 import {WmoFile} from "../../WmoFile.js";
+import {WmoHeader} from "../../WmoHeader.js";
 import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
 import {WmoParser} from "../../WmoParser.js";
+import {WmoDateBias, WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoErrorCode, WmoParseError} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+
+// Resolves a DD/HHMM (or DD/HMM) day and time to the date nearest the reference (usually the TCPOD issued date)
+const resolveDayTime = (day: string | undefined, time: string | undefined, reference: WmoDate,
+                        bias: WmoDateBias = 'nearest'): WmoDate => {
+    const t = parseInt(time ?? 'NaN');
+    return WmoDateResolver.resolve({day: parseInt(day ?? 'NaN'), hour: Math.floor(t / 100), minute: t % 100},
+        reference, {bias});
+};
 
 export interface INous42 extends IWmoMessage {
-    header: INous42Header | null;
+    header: INous42Header;
     atlantic: INous42Basin | null;
     pacific: INous42Basin | null;
     note: string | null;
@@ -27,21 +39,22 @@ export interface INous42 extends IWmoMessage {
 export class NOUS42 extends WmoMessage {
 
     public readonly header: Nous42Header;
-    public readonly atlantic: Nous42Basin;
-    public readonly pacific: Nous42Basin;
+    public readonly atlantic: Nous42Basin | null;
+    public readonly pacific: Nous42Basin | null;
     public readonly note: string | null = null;
 
     constructor(wmoFile: WmoFile) {
         super(wmoFile);
 
         // Parse header
-        this.header = new Nous42Header(wmoFile.parser);
+        this.header = new Nous42Header(wmoFile.parser, wmoFile.header);
 
-        // Parse Atlantic basin
-        this.atlantic = new Nous42Basin(wmoFile.parser, 'I', this.header);
+        // Parse Atlantic basin (when lenient, skip to the next basin or note if invalid)
+        const basinEnd = /^\s*(II+\. |NOTE: |\$\$)/;
+        this.atlantic = wmoFile.parser.recover(() => new Nous42Basin(wmoFile.parser, 'I', this.header), basinEnd);
 
         // Parse Pacific basin, which may not exist
-        this.pacific = new Nous42Basin(wmoFile.parser, 'II', this.header);
+        this.pacific = wmoFile.parser.recover(() => new Nous42Basin(wmoFile.parser, 'II', this.header), basinEnd);
 
         // Parse potential note
         const noteLine = wmoFile.parser.extract(/NOTE: (.+)$/);
@@ -52,11 +65,30 @@ export class NOUS42 extends WmoMessage {
         this.note = noteLine[1] + wmoFile.parser.extractUntil(/\$\$/);
     }
 
+    public static schema(): IWmoJsonSchema {
+        return WmoSchema.object({
+            header: Nous42Header.schema(),
+            atlantic: WmoSchema.nullable(Nous42Basin.schema()),
+            pacific: WmoSchema.nullable(Nous42Basin.schema()),
+            note: WmoSchema.nullable(WmoSchema.string())
+        });
+    }
+
+    public static fromJSON(json: INous42, wmoFile: WmoFile): NOUS42 {
+        return Object.assign(Object.create(NOUS42.prototype) as NOUS42, {
+            wmoFile: wmoFile,
+            header: Nous42Header.fromJSON(json.header),
+            atlantic: json.atlantic ? Nous42Basin.fromJSON(json.atlantic) : null,
+            pacific: json.pacific ? Nous42Basin.fromJSON(json.pacific) : null,
+            note: json.note
+        });
+    }
+
     public override toJSON(): INous42 {
         return {
             header: this.header.toJSON(),
-            atlantic: this.atlantic.toJSON(),
-            pacific: this.pacific.toJSON(),
+            atlantic: this.atlantic?.toJSON() ?? null,
+            pacific: this.pacific?.toJSON() ?? null,
             note: this.note
         };
     }
@@ -91,17 +123,16 @@ export class Nous42Header implements IWmoObject {
     public readonly amendment: boolean;
     public readonly remark: string;
 
-    constructor(p: WmoParser) {
-        // Extract the AWIPS product type (REPRPD)
-        const awips = p.extract(/^REPRPD$/);
-        this.awips = awips ? awips[0] : null;
+    constructor(p: WmoParser, wmoHeader: WmoHeader) {
+        // The AWIPS product type (REPRPD) is usually parsed as part of the WMO header, but may be further down
+        this.awips = wmoHeader.awips?.pil ?? p.extract(/^REPRPD$/)?.[0] ?? null;
 
         // Skip first few header lines
         p.extract(/^WEATHER RECONNAISSANCE FLIGHTS$/);
         p.extract(/NATIONAL HURRICANE CENTER/);
 
         // Extract date info
-        const dateLine = p.assert('Expected date line, but nothing found');
+        const dateLine = p.assert('Expected date line, but nothing found', undefined, WmoErrorCode.missingTcpodDate);
 
         // NHC Bug? 12AM or PM seems to come in as 0 not 12, but 1 comes as 01...
         let headerDate = dateLine[0];
@@ -122,20 +153,21 @@ export class Nous42Header implements IWmoObject {
         // Extract valid dates
         const validRange = p.assert(
             'Expected TCPOD valid line "VALID ##/####Z TO ##/####Z MONTHNAME 20##"',
-            /VALID (\d{2})\/(\d{4}Z?)(?:\s+\w+)? TO (\d{2})\/(\d{4}Z?) (\w+) (\d{4})/);
+            /VALID (\d{2})\/(\d{4}Z?)(?:\s+\w+)? TO (\d{2})\/(\d{4}Z?) (\w+) (\d{4})/,
+            WmoErrorCode.missingTcpodValid);
         //   VALID 1:DAY  / 2:TIME   NA:MONTH    TO 3:DAY  / 4:TIME    5:MON 6:YEAR
 
-        // First, parse the end date, since it may be needed for the start date context
+        // First, parse the end date, since it has the month and year
         this.end = new WmoDate(`${validRange[4]} ${validRange[3]} ${validRange[5]} ${validRange[6]}`, 'HHmmX dd MMMM yyyy');
 
-        // If the end date is the start of a month, use the issued date as the date context for the start date
-        this.start = new WmoDate(`${validRange[2]} ${validRange[1]}`, 'HHmmX dd',
-            validRange[3] === '01' ? this.issued : this.end);
+        // The start date only has the day and time, and is before the end date (possibly in the previous month)
+        this.start = resolveDayTime(validRange[1], validRange[2], this.end, 'backward');
 
         // Extract TCPOD number
         const tcpodNo = p.assert(
             'Expected TCPOD NUMBER line "NUMBER...##-###( CORRECTION| AMENDMENT)?"',
-            /(?:(WS|TC)POD )?NUMBER\.*((\d+)-(\d+))( CORRECTION)?( AMENDMENT)?/);
+            /(?:(WS|TC)POD )?NUMBER\.*((\d+)-(\d+))( CORRECTION)?( AMENDMENT)?/,
+            WmoErrorCode.missingTcpodNumber);
         //   1:TYPE POD NUMBER...2:3:YY-4:SEQ 5:CORRECTION  6:AMENDMENT
         this.tcpod = {
             full: `${tcpodNo[1] ?? 'TC'}-${tcpodNo[2]}`,
@@ -150,6 +182,51 @@ export class Nous42Header implements IWmoObject {
         this.remark = p.extractUntil(/^\s*([A-Z]\. |\d+\. |II+\. |NOTE: |\$\$)/);
     }
 
+    public static tcpodSchema(): IWmoJsonSchema {
+        const text = WmoSchema.nullable(WmoSchema.string());
+        return WmoSchema.object({
+            full: text,
+            tc: WmoSchema.boolean(),
+            yr: text,
+            seq: text
+        });
+    }
+
+    public static schema(): IWmoJsonSchema {
+        const date = WmoSchema.nullable(WmoSchema.ref('WmoDate'));
+        const flag = WmoSchema.nullable(WmoSchema.boolean());
+        return WmoSchema.object({
+            awips: WmoSchema.nullable(WmoSchema.string()),
+            issued: date,
+            start: date,
+            end: date,
+            tcpod: WmoSchema.nullable(Nous42Header.tcpodSchema()),
+            correction: flag,
+            amendment: flag,
+            remark: WmoSchema.nullable(WmoSchema.string())
+        });
+    }
+
+    public static fromJSON(json: INous42Header): Nous42Header {
+        const issued = WmoDate.fromJSON(json.issued);
+        const start = WmoDate.fromJSON(json.start);
+        const end = WmoDate.fromJSON(json.end);
+        if (!issued || !start || !end || !json.tcpod)
+            throw new WmoParseError('Expected the TCPOD JSON header to have issued and valid dates and a TCPOD number',
+                {code: WmoErrorCode.missingTcpodDate});
+
+        return Object.assign(Object.create(Nous42Header.prototype) as Nous42Header, {
+            awips: json.awips,
+            issued: issued,
+            start: start,
+            end: end,
+            tcpod: json.tcpod,
+            correction: json.correction ?? false,
+            amendment: json.amendment ?? false,
+            remark: json.remark ?? ''
+        });
+    }
+
     public toJSON(): INous42Header {
         return {
             awips: this.awips,
@@ -202,7 +279,8 @@ export class Nous42Basin implements IWmoObject {
         // Extract the basin name
         p.assert(
             `Expected basin with ID "${basinId}".`,
-            new RegExp(`^${basinId}\\.\\s+(.*?) REQUIREMENTS(?:\\s*\\((?:NO\\s*)?CHANGE[DS]\\))?$`));
+            new RegExp(`^${basinId}\\.\\s+(.*?) REQUIREMENTS(?:\\s*\\((?:NO\\s*)?CHANGE[DS]\\))?$`),
+            WmoErrorCode.missingTcpodBasin);
         //                         II. ANY TEXT REQUIREMENTS(NO CHANGES)
         //                         II. ANY TEXT REQUIREMENTS (CHANGED)
 
@@ -225,9 +303,12 @@ export class Nous42Basin implements IWmoObject {
             return;
 
         // Extract missions for today (always expects a line with "\s*\d+. OUTLOOK" after)
+        // When lenient, an invalid storm is skipped up to the next storm, outlook, basin or note
         let nextLine;
         do {
-            this.storms.push(new Nous42Storm(p, header));
+            const storm = p.recover(() => new Nous42Storm(p, header), /^\s*(\d+\. |II+\. |NOTE: |\$\$)/);
+            if (storm)
+                this.storms.push(storm);
             nextLine = p.peek();
         } while (nextLine && !nextLine.match(/^\s*\d+\. .*OUTLOOK/));
     }
@@ -239,7 +320,7 @@ export class Nous42Basin implements IWmoObject {
         if (!outlookLine) {
             // If not optional, throw error
             if (!optional)
-                p.error('Expected basin outlook line');
+                p.error('Expected basin outlook line', {code: WmoErrorCode.missingTcpodOutlook});
             return;
         }
 
@@ -328,14 +409,47 @@ export class Nous42Basin implements IWmoObject {
             required: (
                 match[5]
                     ? {
-                        start: new WmoDate(`${match[5]} ${match[6]}Z`, 'dd HHmmX', tcpodDate),
+                        start: resolveDayTime(match[5], match[6], tcpodDate),
                         end: match[8]
-                            ? new WmoDate(`${match[7] || match[5]} ${match[8]}Z`, 'dd HHmmX', tcpodDate)
+                            ? resolveDayTime(match[7] || match[5], match[8], tcpodDate)
                             : null
                     }
                     : null
             ),
-            canceledAt: new WmoDate(`${match[9]} ${match[10]}Z`, 'dd HHmmX', tcpodDate)
+            canceledAt: resolveDayTime(match[9], match[10], tcpodDate)
+        });
+    }
+
+    public static schema(): IWmoJsonSchema {
+        const text = WmoSchema.nullable(WmoSchema.string());
+        return WmoSchema.object({
+            storms: WmoSchema.array(Nous42Storm.schema()),
+            outlook: WmoSchema.array(WmoSchema.object({
+                negative: WmoSchema.boolean(),
+                text: WmoSchema.string()
+            })),
+            remarks: WmoSchema.array(WmoSchema.string()),
+            canceled: WmoSchema.array(WmoSchema.object({
+                tcpod: text,
+                mission: text,
+                tcpodYr: text,
+                tcpodSeq: text,
+                required: WmoSchema.nullable(WmoSchema.ref('WmoDateRange')),
+                canceledAt: WmoSchema.ref('WmoDate')
+            }, ['mission', 'tcpodYr', 'tcpodSeq', 'required', 'canceledAt']))
+        });
+    }
+
+    public static fromJSON(json: INous42Basin): Nous42Basin {
+        return Object.assign(Object.create(Nous42Basin.prototype) as Nous42Basin, {
+            storms: json.storms.map(s => Nous42Storm.fromJSON(s)),
+            outlook: json.outlook,
+            remarks: json.remarks,
+            canceled: json.canceled.map(c => ({
+                ...c,
+                ...(c.required !== undefined ? {required: WmoDate.rangeFromJSON(c.required)} : {}),
+                ...(c.canceledAt ? {canceledAt: WmoDate.fromJSON(c.canceledAt)} : {})
+            }))
         });
     }
 
@@ -365,7 +479,7 @@ export class Nous42Storm implements IWmoObject {
         // Extract out the storm name
         const rawStormLine = p.extract(/^\s*\d+\.\s+(.+)$/);
         if (!rawStormLine || !rawStormLine[1])
-            p.error('Expected a storm name, but it was not found.');
+            p.error('Expected a storm name, but it was not found.', {code: WmoErrorCode.missingTcpodStorm});
 
         // Normalize storm name
         const normSearch = rawStormLine[1].match(/^((HURRICANE|TROPICAL STORM|TROPICAL DEPRESSION|POTENTIAL TROPICAL CYCLONE) (.+)|SUSPECT AREA \((.+)\))$/);
@@ -409,13 +523,19 @@ export class Nous42Storm implements IWmoObject {
     }
 
     processMissions(p: WmoParser, header: Nous42Header) {
+        // Helper to record where each flight's item was in the source (if enabled)
+        const spans: {[key: string]: (IWmoSourceSpan | null)[]} = {};
+        const matchSpans = (matches: RegExpExecArray[] | undefined) =>
+            matches && p.hasSpans() ? matches.map(m => p.span(undefined, m)) : [];
+
         // Get Flight Info
         // Group 0 - Full match line
         // Group 1 - Flight Name
         // Group 2 - End or optional flight separation
         const flights = p.extractAll(/FLIGHT[^-]+-\s+(.+?)($|\s{2})/g);
         if (!flights && !p.peek()?.match(/^\s*A\./))
-            p.error('Expected a Flight Name line (FLIGHT ONE - CALLSIGN 123)');
+            p.error('Expected a Flight Name line (FLIGHT ONE - CALLSIGN 123)', {code: WmoErrorCode.missingTcpodMission});
+        spans.name = matchSpans(flights);
 
         // A. Determine the required fix times (times required to be in storm)
         // Group 0 - Full match of line
@@ -429,7 +549,8 @@ export class Nous42Storm implements IWmoObject {
         // NOTE: There appears to be some cases where there is 3 date/times. I'm not sure what the third date means
         const requiredDates = p.extractAll(/A\. (\d+)\/(\d+)Z?(,\s*((\d+)\/)?(\d+)Z?)?\S*($|\s{2})/g);
         if (!requiredDates)
-            p.error('Expected a Flight A. Data Line');
+            p.error('Expected a Flight A. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.required = matchSpans(requiredDates);
 
         // B. Flight Identifier
         // Group 0 - Full match of line
@@ -437,7 +558,8 @@ export class Nous42Storm implements IWmoObject {
         // Group 2 - Optional second flight separation
         const missionIdentifiers = p.extractAll(/B\. (.*?)($|\s{2})/g);
         if (!missionIdentifiers)
-            p.error('Expected a Flight B. Data Line');
+            p.error('Expected a Flight B. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.id = matchSpans(missionIdentifiers);
 
         // C. Estimated departure date/time
         // Group 0 - Full match of line
@@ -447,7 +569,8 @@ export class Nous42Storm implements IWmoObject {
         // Group 4 - Optional second flight separation
         const departures = p.extractAll(/C\. (\d{2})\/(\d{3,4})Z(\s\(CHANGED\))?($|\s{2})/g);
         if (!departures)
-            p.error('Expected a Flight C. Data Line');
+            p.error('Expected a Flight C. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.departure = matchSpans(departures);
 
         // D. Target Coordinates
         // Group 0 - Full match of line
@@ -456,17 +579,19 @@ export class Nous42Storm implements IWmoObject {
         // Group 3 - Longitude Number
         // Group 4 - Longitude E or W
         // Group 5 - Optional second flight separation
+        const coordStart = p.mark();
         let coordinates = p.extractAll(/D\. (?:(\d+\.\d+)([NS]) (\d+\.\d+)([EW])|(NA))($|\s{2})/g);
         let coordText: string | undefined = undefined;
         if (!coordinates) {
             // Check for a buoy deployment (multi line/coordinates)
             coordText = p.extractUntil(/E\..*$/g);
             if (!coordText)
-                p.error('Expected a Flight D. Data Line');
+                p.error('Expected a Flight D. Data Line', {code: WmoErrorCode.missingTcpodMission});
 
             // Try and match at least one coordinate
             coordinates = p.extractAll(/(\d+\.\d+)([NS]) (\d+\.\d+)([EW])|(NA)/g);
         }
+        spans.coordinates = coordText === undefined ? matchSpans(coordinates) : [p.span(coordStart)];
 
         // E. Fix window
         // Group 0 - Full match of line
@@ -477,7 +602,8 @@ export class Nous42Storm implements IWmoObject {
         // Group 5 - Optional second flight separation
         const fixWindows = p.extractAll(/E\. (?:(\d{2})\/(\d{4})Z TO (\d{2})\/(\d{4})Z|(NA))(\s\(CORRECT(?:ED|ION)\))?($|\s{2})/g);
         if (!fixWindows)
-            p.error('Expected a Flight E. Data Line');
+            p.error('Expected a Flight E. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.window = matchSpans(fixWindows);
 
         // F. Flight altitude(s)
         // Group 0 - Full match of line
@@ -485,7 +611,8 @@ export class Nous42Storm implements IWmoObject {
         // Group 2 - Optional second flight separation
         const altitudes = p.extractAll(/F\. (SFC|[\d,]+) TO ([\d,]+) FT(\s\(CORRECT(?:ED|ION)\))?($|\s{2})/g);
         if (!altitudes)
-            p.error('Expected a Flight F. Data Line');
+            p.error('Expected a Flight F. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.altitude = matchSpans(altitudes);
 
         // G. Mission Profile
         // Group 0 - Full match of line
@@ -493,7 +620,8 @@ export class Nous42Storm implements IWmoObject {
         // Group 2 - Optional second flight separation
         const profiles = p.extractAll(/G\. (.*?)($|\s{2})/g);
         if (!profiles)
-            p.error('Expected a Flight G. Data Line');
+            p.error('Expected a Flight G. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.profile = matchSpans(profiles);
 
         // H. Area Activation Status
         // Group 0 - Full match of line
@@ -502,13 +630,15 @@ export class Nous42Storm implements IWmoObject {
         // Group 3 - Optional second flight separation
         const activationStatuses = p.extractAll(/H\. (NO)?\s?(.*?)($|\s{2})/g);
         if (!activationStatuses)
-            p.error('Expected a Flight H. Data Line');
+            p.error('Expected a Flight H. Data Line', {code: WmoErrorCode.missingTcpodMission});
+        spans.wra = matchSpans(activationStatuses);
 
         // I. Remarks (optional)
         // Group 0 - Full match of line
         // Group 1 - Remark text
         // Group 2 - Optional second flight separation
         const remarks = p.extractAll(/I\. (.*?)($|\s{2})/g);
+        spans.remarks = matchSpans(remarks);
 
         // For each flight, create a mission object
         const flightCount = flights ? flights.length : 1;
@@ -524,10 +654,27 @@ export class Nous42Storm implements IWmoObject {
                 profile: profiles[i],
                 activationStatus: activationStatuses[i],
                 remarks: remarks && remarks.length > i ? remarks[i] : undefined
-            }));
+            }, p.hasSpans() ? Object.fromEntries(Object.entries(spans).map(([k, s]) => [k, s[i] ?? null])) : null));
         }
     }
 
+    public static schema(): IWmoJsonSchema {
+        const text = WmoSchema.nullable(WmoSchema.string());
+        return WmoSchema.object({
+            name: text,
+            text: text,
+            missions: WmoSchema.array(Nous42Mission.schema())
+        });
+    }
+
+    public static fromJSON(json: INous42Storm): Nous42Storm {
+        return Object.assign(Object.create(Nous42Storm.prototype) as Nous42Storm, {
+            name: json.name,
+            text: json.text,
+            missions: json.missions.map(m => Nous42Mission.fromJSON(m))
+        });
+    }
+
     public toJSON(): INous42Storm {
         return {
             name: this.name,
@@ -554,6 +701,11 @@ export interface INous42Mission {
     profile: string | null;
     wra: boolean | null;
     remarks: string | null;
+    spans?: INous42MissionSpans;
+}
+
+export interface INous42MissionSpans {
+    [key: string]: IWmoSourceSpan | null;
 }
 
 export class Nous42Mission implements IWmoObject{
@@ -569,8 +721,10 @@ export class Nous42Mission implements IWmoObject{
     public readonly profile: string | null = null;
     public readonly wra: boolean = false;
     public readonly remarks: string | null = null;
+    public readonly spans: INous42MissionSpans | null = null;
 
-    constructor(header: Nous42Header, matches: {[key: string]: RegExpExecArray | undefined}) {
+    constructor(header: Nous42Header, matches: {[key: string]: RegExpExecArray | undefined},
+                spans: INous42MissionSpans | null = null) {
         const {
             flight,
             required,
@@ -590,9 +744,9 @@ export class Nous42Mission implements IWmoObject{
 
         if (required) {
             this.required = {
-                start: new WmoDate(`${required[1]} ${required[2]}Z`, `dd ${required[2] && required[2].length > 3 ? 'HHmm' : 'Hmm'}X`, tcpodDate),
+                start: resolveDayTime(required[1], required[2], tcpodDate),
                 end: required[3]
-                    ? new WmoDate(`${required[5] || required[1]} ${required[6]}Z`, `dd ${required[6] && required[6].length > 3 ? 'HHmm' : 'Hmm'}X`, tcpodDate)
+                    ? resolveDayTime(required[5] || required[1], required[6], tcpodDate)
                     : null
             };
         }
@@ -600,7 +754,7 @@ export class Nous42Mission implements IWmoObject{
         this.id = id && id[1] ? id[1] : null;
 
         if (departure)
-            this.departure = new WmoDate(`${departure[1]} ${departure[2]}Z`, `dd ${departure[2] && departure[2].length > 3 ? 'HHmm' : 'Hmm'}X`, tcpodDate);
+            this.departure = resolveDayTime(departure[1], departure[2], tcpodDate);
 
         if (coordinates && coordinates[5] !== 'NA')
         {
@@ -612,8 +766,8 @@ export class Nous42Mission implements IWmoObject{
 
         if (fixWindow && fixWindow[5] !== 'NA') {
             this.window = {
-                start: new WmoDate(`${fixWindow[1]} ${fixWindow[2]}Z`, `dd ${fixWindow[2] && fixWindow[2].length > 3 ? 'HHmm' : 'Hmm'}X`, tcpodDate),
-                end: new WmoDate(`${fixWindow[3]} ${fixWindow[4]}Z`, `dd ${fixWindow[4] && fixWindow[4].length > 3 ? 'HHmm' : 'Hmm'}X`, tcpodDate)
+                start: resolveDayTime(fixWindow[1], fixWindow[2], tcpodDate),
+                end: resolveDayTime(fixWindow[3], fixWindow[4], tcpodDate)
             };
         }
 
@@ -627,6 +781,51 @@ export class Nous42Mission implements IWmoObject{
         this.profile = profile && profile[1] ? profile[1] : null;
         this.wra = (activationStatus && activationStatus[1] !== 'NO') ?? false;
         this.remarks = remarks && remarks[1] ? remarks[1] : null;
+
+        // Where each of the A. - I. items were in the source, keyed by the JSON property (if enabled)
+        this.spans = spans;
+    }
+
+    public static schema(): IWmoJsonSchema {
+        const text = WmoSchema.nullable(WmoSchema.string());
+        const range = WmoSchema.nullable(WmoSchema.ref('WmoDateRange'));
+        return WmoSchema.object({
+            tcpod: WmoSchema.nullable(Nous42Header.tcpodSchema()),
+            name: text,
+            required: range,
+            id: text,
+            departure: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+            coordinates: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+            window: range,
+            altitude: WmoSchema.nullable(WmoSchema.object({
+                upper: WmoSchema.nullable(WmoSchema.number()),
+                lower: WmoSchema.nullable(WmoSchema.number())
+            })),
+            profile: text,
+            wra: WmoSchema.nullable(WmoSchema.boolean()),
+            remarks: text,
+            spans: {
+                type: 'object',
+                additionalProperties: WmoSchema.nullable(WmoSchema.ref('WmoSourceSpan'))
+            }
+        }, ['spans']);
+    }
+
+    public static fromJSON(json: INous42Mission): Nous42Mission {
+        return Object.assign(Object.create(Nous42Mission.prototype) as Nous42Mission, {
+            tcpod: json.tcpod,
+            name: json.name,
+            required: WmoDate.rangeFromJSON(json.required),
+            id: json.id,
+            departure: WmoDate.fromJSON(json.departure),
+            coordinates: json.coordinates,
+            window: WmoDate.rangeFromJSON(json.window),
+            altitude: json.altitude,
+            profile: json.profile,
+            wra: json.wra ?? false,
+            remarks: json.remarks,
+            spans: json.spans ?? null
+        });
     }
 
     public toJSON(): INous42Mission {
@@ -641,7 +840,8 @@ export class Nous42Mission implements IWmoObject{
             altitude: this.altitude,
             profile: this.profile,
             wra: this.wra,
-            remarks: this.remarks
+            remarks: this.remarks,
+            ...(this.spans ? {spans: this.spans} : {})
         };
     }
 }
\ No newline at end of file
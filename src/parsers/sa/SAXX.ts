@@ -0,0 +1,375 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the METAR (SAxx) and SPECI (SPxx) collectives into the report of each station. The remarks are only decoded
+ * for the fields most relevant to tropical events (the peak wind, sea-level pressure and rapid pressure changes).
+ * Details can be found in the Federal Meteorological Handbook No. 1 (FMH-1) and the WMO Manual on Codes (FM-15/16).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {ISaxxSkyLayer, ISaxxVisibility, ISaxxWeather, ISaxxWind, SaxxCodes} from "./SaxxCodes.js";
+
+// The start of each report (i.e. METAR KTPA 081853Z)
+const reportStart = /^(?:(METAR|SPECI)\s+)?(?:(COR)\s+)?([A-Z][A-Z0-9]{3})\s+(\d{2})(\d{2})(\d{2})Z(?:\s|=|$)/;
+
+// Parses a temperature, where negative values start with an M
+function toTemperature(value: string | undefined): number | null {
+	return value ? parseInt(value.replace(/^M/, '-')) : null;
+}
+
+export interface ISaxx extends IWmoMessage {
+	reports: ISaxxReport[];
+}
+
+export class SAXX extends WmoMessage {
+
+	public readonly reports: SaxxReport[] = [];
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Helper parser variable
+		const p = wmoFile.parser;
+
+		// The collective is METAR, unless it is a SPECI collective (SPxx) or the line before the reports says otherwise
+		let type = wmoFile.header.designator.startsWith('SP') ? 'SPECI' : 'METAR';
+		for (let next = p.peek(); next !== undefined && next !== ';' && next !== 'NNNN'; next = p.peek()) {
+			// METAR (or SPECI) on its own line
+			const collective = p.extract(/^(METAR|SPECI)$/);
+			if (collective) {
+				type = collective[1] ?? type;
+				continue;
+			}
+			if (!next.trim()) {
+				p.skipEmpty();
+				continue;
+			}
+
+			const report = p.recover(() => new SaxxReport(p, type, wmoFile.header.datetime), reportStart);
+			if (report)
+				this.reports.push(report);
+		}
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			reports: WmoSchema.array(SaxxReport.schema())
+		});
+	}
+
+	public static fromJSON(json: ISaxx, wmoFile: WmoFile): SAXX {
+		return Object.assign(Object.create(SAXX.prototype) as SAXX, {
+			wmoFile: wmoFile,
+			reports: json.reports.map(r => SaxxReport.fromJSON(r))
+		});
+	}
+
+	public override toJSON(): ISaxx {
+		return {
+			reports: this.reports.map(r => r.toJSON())
+		};
+	}
+}
+
+export interface ISaxxAltimeter {
+	value: number;
+	unit: string;
+}
+
+export interface ISaxxReport {
+	type: string;
+	station: string;
+	time: IWmoDate | null;
+	auto: boolean;
+	correction: boolean;
+	nil: boolean;
+	cavok: boolean;
+	wind: ISaxxWind | null;
+	visibility: ISaxxVisibility | null;
+	weather: ISaxxWeather[];
+	sky: ISaxxSkyLayer[];
+	temperature: number | null;
+	dewPoint: number | null;
+	altimeter: ISaxxAltimeter | null;
+	remarks: ISaxxRemarks | null;
+	unparsed: string[];
+	text: string;
+	span?: IWmoSourceSpan;
+}
+
+export class SaxxReport implements IWmoObject {
+
+	public readonly type: string;
+	public readonly station: string;
+	public readonly time: WmoDate | null = null;
+	public readonly auto: boolean = false;
+	public readonly correction: boolean = false;
+	public readonly nil: boolean = false;
+	public readonly cavok: boolean = false;
+	public readonly wind: ISaxxWind | null = null;
+	public readonly visibility: ISaxxVisibility | null = null;
+	public readonly weather: ISaxxWeather[] = [];
+	public readonly sky: ISaxxSkyLayer[] = [];
+	public readonly temperature: number | null = null;
+	public readonly dewPoint: number | null = null;
+	public readonly altimeter: ISaxxAltimeter | null = null;
+	public readonly remarks: SaxxRemarks | null = null;
+	public readonly unparsed: string[] = [];
+	public readonly text: string;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, type: string, reference: WmoDate) {
+		// METAR KTPA 081853Z 09015G25KT 060V120 1 1/2SM +RA BR FEW008 BKN015CB
+		// 11111 2222 334455
+		const start = p.mark();
+		const first = p.assert('Expected a METAR report', reportStart, WmoErrorCode.badMetarReport);
+
+		// The report continues on the following lines until it ends with a = (or the next report starts)
+		let text = first.input ?? '';
+		for (let next = p.peek(); !text.match(/=\s*$/) && next && !next.match(reportStart) && !next.match(/^(;|NNNN)$/); next = p.peek())
+			text += ` ${p.extract()?.[0] ?? ''}`;
+		this.text = text.replace(/=\s*$/, '').trim();
+
+		this.type = first[1] ?? type;
+		this.correction = !!first[2];
+		this.station = first[3] ?? '';
+		this.time = WmoDateResolver.resolve({
+			day: parseInt(first[4] ?? 'NaN'),
+			hour: parseInt(first[5] ?? 'NaN'),
+			minute: parseInt(first[6] ?? 'NaN')
+		}, reference, {bias: 'backward', tolerance: 60});
+
+		// Decode each group of the report body, up to the remarks
+		const groups = this.text.substring(first[0].trimEnd().length).trim().split(/\s+/).filter(g => g);
+		for (let i = 0; i < groups.length; ++i) {
+			const group = groups[i] ?? '';
+
+			// Everything after RMK is the remarks
+			if (group === 'RMK') {
+				this.remarks = new SaxxRemarks(groups.slice(i + 1).join(' '), this.time);
+				break;
+			}
+
+			// Report modifiers (NIL is a missing report)
+			if (group === 'AUTO') {
+				this.auto = true;
+				continue;
+			}
+			if (group === 'COR') {
+				this.correction = true;
+				continue;
+			}
+			if (group === 'NIL') {
+				this.nil = true;
+				continue;
+			}
+			if (group === 'CAVOK') {
+				this.cavok = true;
+				continue;
+			}
+
+			// The wind, visibility, present weather and sky layers
+			const wind = SaxxCodes.wind(group);
+			if (wind && !this.wind) {
+				this.wind = wind;
+				continue;
+			}
+			const variable = this.wind ? SaxxCodes.variableWind(group, this.wind) : null;
+			if (variable) {
+				this.wind = variable;
+				continue;
+			}
+			const visibility = !this.visibility && !this.sky.length ? SaxxCodes.visibility(groups, i) : null;
+			if (visibility) {
+				this.visibility = visibility.visibility;
+				i += visibility.count - 1;
+				continue;
+			}
+			const weather = SaxxCodes.weather(group);
+			if (weather) {
+				this.weather.push(weather);
+				continue;
+			}
+			const sky = SaxxCodes.sky(group);
+			if (sky) {
+				this.sky.push(sky);
+				continue;
+			}
+
+			// 24/23 or M01/M03 - The temperature and dew point
+			const temperature = group.match(/^(M?\d{2})\/(M?\d{2})?$/);
+			if (temperature) {
+				this.temperature = toTemperature(temperature[1]);
+				this.dewPoint = toTemperature(temperature[2]);
+				continue;
+			}
+
+			// A2990 (inches of mercury) or Q1013 (hPa) - The altimeter setting
+			const altimeter = group.match(/^([AQ])(\d{4})$/);
+			if (altimeter) {
+				const value = parseInt(altimeter[2] ?? 'NaN');
+				this.altimeter = altimeter[1] === 'A' ? {value: value / 100, unit: 'inHg'} : {value: value, unit: 'hPa'};
+				continue;
+			}
+
+			// Anything else (i.e. runway visual range or trends) is kept as is
+			this.unparsed.push(group);
+		}
+
+		// Record where the report was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			type: WmoSchema.string(),
+			station: WmoSchema.string(),
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			auto: WmoSchema.boolean(),
+			correction: WmoSchema.boolean(),
+			nil: WmoSchema.boolean(),
+			cavok: WmoSchema.boolean(),
+			wind: WmoSchema.nullable(SaxxCodes.windSchema()),
+			visibility: WmoSchema.nullable(SaxxCodes.visibilitySchema()),
+			weather: WmoSchema.array(SaxxCodes.weatherSchema()),
+			sky: WmoSchema.array(SaxxCodes.skySchema()),
+			temperature: num,
+			dewPoint: num,
+			altimeter: WmoSchema.nullable(WmoSchema.object({
+				value: WmoSchema.number(),
+				unit: WmoSchema.string()
+			})),
+			remarks: WmoSchema.nullable(SaxxRemarks.schema()),
+			unparsed: WmoSchema.array(WmoSchema.string()),
+			text: WmoSchema.string(),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: ISaxxReport): SaxxReport {
+		return Object.assign(Object.create(SaxxReport.prototype) as SaxxReport, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			remarks: json.remarks ? SaxxRemarks.fromJSON(json.remarks) : null,
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): ISaxxReport {
+		return {
+			type: this.type,
+			station: this.station,
+			time: this.time?.toJSON() ?? null,
+			auto: this.auto,
+			correction: this.correction,
+			nil: this.nil,
+			cavok: this.cavok,
+			wind: this.wind,
+			visibility: this.visibility,
+			weather: this.weather,
+			sky: this.sky,
+			temperature: this.temperature,
+			dewPoint: this.dewPoint,
+			altimeter: this.altimeter,
+			remarks: this.remarks?.toJSON() ?? null,
+			unparsed: this.unparsed,
+			text: this.text,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
+
+export interface ISaxxPeakWind {
+	direction: number;
+	speed: number;
+	time: IWmoDate | null;
+}
+
+export interface ISaxxRemarks {
+	text: string;
+	peakWind: ISaxxPeakWind | null;
+	seaLevelPressure: number | null;
+	pressureRisingRapidly: boolean;
+	pressureFallingRapidly: boolean;
+}
+
+export class SaxxRemarks implements IWmoObject {
+
+	public readonly text: string;
+	public readonly peakWind: {direction: number, speed: number, time: WmoDate | null} | null = null;
+	public readonly seaLevelPressure: number | null = null;
+	public readonly pressureRisingRapidly: boolean;
+	public readonly pressureFallingRapidly: boolean;
+
+	public constructor(text: string, time: WmoDate | null) {
+		this.text = text;
+
+		// PK WND 10045/1832 (or 10045/32 in the hour of the observation) - The peak wind and when it occurred
+		const peak = text.match(/\bPK\s+WND\s+(\d{3})(\d{2,3})\/(\d{2})?(\d{2})\b/);
+		if (peak) {
+			this.peakWind = {
+				direction: parseInt(peak[1] ?? 'NaN'),
+				speed: parseInt(peak[2] ?? 'NaN'),
+				time: time ? WmoDateResolver.resolve({
+					hour: peak[3] ? parseInt(peak[3]) : null,
+					minute: parseInt(peak[4] ?? 'NaN')
+				}, time, {bias: 'backward'}) : null
+			};
+		}
+
+		// SLP125 - The sea-level pressure in tenths of a hPa, without the leading 9 or 10
+		const slp = text.match(/\bSLP(\d{3})\b/);
+		if (slp) {
+			const value = parseInt(slp[1] ?? 'NaN') / 10;
+			this.seaLevelPressure = Math.round((value + (value < 50 ? 1000 : 900)) * 10) / 10;
+		}
+
+		// PRESRR / PRESFR - The pressure is rising or falling rapidly
+		this.pressureRisingRapidly = !!text.match(/\bPRESRR\b/);
+		this.pressureFallingRapidly = !!text.match(/\bPRESFR\b/);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			text: WmoSchema.string(),
+			peakWind: WmoSchema.nullable(WmoSchema.object({
+				direction: WmoSchema.number(),
+				speed: WmoSchema.number(),
+				time: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+			})),
+			seaLevelPressure: WmoSchema.nullable(WmoSchema.number()),
+			pressureRisingRapidly: WmoSchema.boolean(),
+			pressureFallingRapidly: WmoSchema.boolean()
+		});
+	}
+
+	public static fromJSON(json: ISaxxRemarks): SaxxRemarks {
+		return Object.assign(Object.create(SaxxRemarks.prototype) as SaxxRemarks, {
+			...json,
+			peakWind: json.peakWind ? {...json.peakWind, time: WmoDate.fromJSON(json.peakWind.time)} : null
+		});
+	}
+
+	public toJSON(): ISaxxRemarks {
+		return {
+			text: this.text,
+			peakWind: this.peakWind ? {...this.peakWind, time: this.peakWind.time?.toJSON() ?? null} : null,
+			seaLevelPressure: this.seaLevelPressure,
+			pressureRisingRapidly: this.pressureRisingRapidly,
+			pressureFallingRapidly: this.pressureFallingRapidly
+		};
+	}
+}
\ No newline at end of file
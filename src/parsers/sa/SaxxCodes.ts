@@ -0,0 +1,162 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Decodes the groups shared by the METAR / SPECI (FM-15/16) observations and the TAF (FM-51) forecasts, which code the
+ * wind, visibility, present weather and sky layers the same way.
+ * Details can be found in the Federal Meteorological Handbook No. 1 (FMH-1) and the WMO Manual on Codes (FM-15/16/51).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+
+export interface ISaxxWind {
+	direction: number | null;
+	variable: boolean;
+	speed: number;
+	gust: number | null;
+	unit: string;
+	variableFrom: number | null;
+	variableTo: number | null;
+}
+
+export interface ISaxxVisibility {
+	value: number;
+	unit: string;
+	lessThan: boolean;
+	greaterThan: boolean;
+}
+
+export interface ISaxxWeather {
+	intensity: string | null;
+	descriptor: string | null;
+	phenomena: string[];
+	text: string;
+}
+
+export interface ISaxxSkyLayer {
+	cover: string;
+	height: number | null;
+	type: string | null;
+}
+
+export class SaxxCodes {
+
+	public static wind(group: string): ISaxxWind | null {
+		// 09015G25KT (or VRB03KT) - The wind direction, speed and gusts
+		const wind = group.match(/^(\d{3}|VRB)(\d{2,3})(?:G(\d{2,3}))?(KT|MPS|KMH)$/);
+		if (!wind)
+			return null;
+		return {
+			direction: wind[1] === 'VRB' ? null : parseInt(wind[1] ?? 'NaN'),
+			variable: wind[1] === 'VRB',
+			speed: parseInt(wind[2] ?? 'NaN'),
+			gust: wind[3] ? parseInt(wind[3]) : null,
+			unit: wind[4] ?? 'KT',
+			variableFrom: null,
+			variableTo: null
+		};
+	}
+
+	public static variableWind(group: string, wind: ISaxxWind): ISaxxWind | null {
+		// 060V120 - The range of a variable wind direction
+		const variable = group.match(/^(\d{3})V(\d{3})$/);
+		return variable
+			? {...wind, variableFrom: parseInt(variable[1] ?? 'NaN'), variableTo: parseInt(variable[2] ?? 'NaN')}
+			: null;
+	}
+
+	public static visibility(groups: string[], i: number): {visibility: ISaxxVisibility, count: number} | null {
+		// 10SM, 1/2SM, 1 1/2SM, M1/4SM or P6SM (statute miles), where the whole miles may be a separate group
+		const group = groups[i] ?? '';
+		const whole = group.match(/^\d$/) && groups[i + 1]?.match(/^\d\/\dSM$/);
+		const statute = (whole ? `${group} ${groups[i + 1]}` : group).match(/^([MP])?(?:(\d+)\s)?(\d+)(?:\/(\d+))?SM$/);
+		if (statute) {
+			const fraction = statute[4] ? parseInt(statute[3] ?? 'NaN') / parseInt(statute[4]) : parseInt(statute[3] ?? 'NaN');
+			return {
+				visibility: {
+					value: parseInt(statute[2] ?? '0') + fraction,
+					unit: 'SM',
+					lessThan: statute[1] === 'M',
+					greaterThan: statute[1] === 'P'
+				},
+				count: whole ? 2 : 1
+			};
+		}
+
+		// 9999 or 0800 (meters), where 9999 is 10 km or more
+		const metric = group.match(/^(\d{4})(?:NDV)?$/);
+		return metric
+			? {visibility: {value: parseInt(metric[1] ?? 'NaN'), unit: 'M', lessThan: false, greaterThan: metric[1] === '9999'}, count: 1}
+			: null;
+	}
+
+	public static weather(group: string): ISaxxWeather | null {
+		// +TSRA, BR or VCSH - The present (or forecast) weather
+		const weather = group.match(/^(-|\+|VC)?(MI|PR|BC|DR|BL|SH|TS|FZ)?((?:DZ|RA|SN|SG|IC|PL|GR|GS|UP|BR|FG|FU|VA|DU|SA|HZ|PY|PO|SQ|FC|SS|DS)*)$/);
+		if (!weather || (!weather[2] && !weather[3]))
+			return null;
+		return {
+			intensity: weather[1] ?? null,
+			descriptor: weather[2] ?? null,
+			phenomena: weather[3]?.match(/../g) ?? [],
+			text: group
+		};
+	}
+
+	public static sky(group: string): ISaxxSkyLayer | null {
+		// FEW008, BKN015CB or VV002 - The sky layers (with the height in hundreds of feet), or clear
+		const sky = group.match(/^(FEW|SCT|BKN|OVC|VV)(\d{3}|\/\/\/)(CB|TCU)?$/);
+		if (sky) {
+			return {
+				cover: sky[1] ?? '',
+				height: sky[2]?.match(/^\d{3}$/) ? parseInt(sky[2]) * 100 : null,
+				type: sky[3] ?? null
+			};
+		}
+		return group.match(/^(CLR|SKC|NSC|NCD)$/) ? {cover: group, height: null, type: null} : null;
+	}
+
+	public static windSchema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			direction: num,
+			variable: WmoSchema.boolean(),
+			speed: WmoSchema.number(),
+			gust: num,
+			unit: WmoSchema.string(),
+			variableFrom: num,
+			variableTo: num
+		});
+	}
+
+	public static visibilitySchema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			value: WmoSchema.number(),
+			unit: WmoSchema.string(),
+			lessThan: WmoSchema.boolean(),
+			greaterThan: WmoSchema.boolean()
+		});
+	}
+
+	public static weatherSchema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			intensity: text,
+			descriptor: text,
+			phenomena: WmoSchema.array(WmoSchema.string()),
+			text: WmoSchema.string()
+		});
+	}
+
+	public static skySchema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			cover: WmoSchema.string(),
+			height: WmoSchema.nullable(WmoSchema.number()),
+			type: WmoSchema.nullable(WmoSchema.string())
+		});
+	}
+}
\ No newline at end of file
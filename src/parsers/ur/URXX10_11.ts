@@ -17,18 +17,21 @@ import {IWmoDate, WmoDate} from '../../WmoDate.js';
 import {WmoFile} from "../../WmoFile.js";
 import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
 import {WmoParser} from "../../WmoParser.js";
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
 
 export interface IUrxx10_11 extends IWmoMessage {
-	observation: IUrxx10_11Observation;
-	mission: IUrxx10_11Mission;
-	remarks: IUrxx10_11Remarks;
+	observation: IUrxx10_11Observation | null;
+	mission: IUrxx10_11Mission | null;
+	remarks: IUrxx10_11Remarks | null;
 }
 
 export class URXX10_11 extends WmoMessage {
 
-	public readonly observation: Urxx10_11Observation;
-	public readonly mission: Urxx10_11Mission;
-	public readonly remarks: Urxx10_11Remarks;
+	public readonly observation: Urxx10_11Observation | null;
+	public readonly mission: Urxx10_11Mission | null;
+	public readonly remarks: Urxx10_11Remarks | null;
 
 	public constructor(wmoFile: WmoFile) {
 		super(wmoFile);
@@ -36,25 +39,45 @@ export class URXX10_11 extends WmoMessage {
 		// Helper parser variable
 		const p = wmoFile.parser;
 		
-		// Parse mandatory observation line
-		this.observation = new Urxx10_11Observation(p, wmoFile.header?.datetime);
+		// Parse mandatory observation line (when lenient, skip to the mission identifier if invalid)
+		this.observation = p.recover(() => new Urxx10_11Observation(p, wmoFile.header?.datetime), /^RMK\s/);
 
 		// Parse mission identifier
-		this.mission = new Urxx10_11Mission(p);
+		this.mission = p.recover(() => new Urxx10_11Mission(p));
 
 		// Process remarks
-		this.remarks = new Urxx10_11Remarks(p);
+		this.remarks = p.recover(() => new Urxx10_11Remarks(p));
 
-		// If there is still text, then throw error
-		if (p.remainingLines() > 0)
-			p.error('Expected end of Urxx10/11 after a ;');
+		// If there is still text, then throw error (or only warn when lenient, since everything else was parsed)
+		if (p.remainingLines() > 0) {
+			if (!p.isLenient())
+				p.error('Expected end of Urxx10/11 after a ;', {code: WmoErrorCode.unexpectedReccoText});
+			p.warn('Expected end of Urxx10/11 after a ;', WmoErrorCode.unexpectedReccoText);
+		}
+	}
+	
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			observation: WmoSchema.nullable(Urxx10_11Observation.schema()),
+			mission: WmoSchema.nullable(Urxx10_11Mission.schema()),
+			remarks: WmoSchema.nullable(Urxx10_11Remarks.schema())
+		});
+	}
+	
+	public static fromJSON(json: IUrxx10_11, wmoFile: WmoFile): URXX10_11 {
+		return Object.assign(Object.create(URXX10_11.prototype) as URXX10_11, {
+			wmoFile: wmoFile,
+			observation: json.observation ? Urxx10_11Observation.fromJSON(json.observation) : null,
+			mission: json.mission ? Urxx10_11Mission.fromJSON(json.mission) : null,
+			remarks: json.remarks ? Urxx10_11Remarks.fromJSON(json.remarks) : null
+		});
 	}
 	
 	public override toJSON(): IUrxx10_11 {
 		return {
-			observation: this.observation.toJSON(),
-			mission: this.mission.toJSON(),
-			remarks: this.remarks.toJSON()
+			observation: this.observation?.toJSON() ?? null,
+			mission: this.mission?.toJSON() ?? null,
+			remarks: this.remarks?.toJSON() ?? null
 		};
 	}
 }
@@ -149,12 +172,17 @@ stv - surface temp value
 		 */
 		const dl = p.assert(
 			'Expected RECCO header line.',
-			/^9(222|555|777)9\s+(\d{2}\d{2})([0-7\/])\s+([1-7\/])([0-35-8\/])([\d\/]{3})\s+([\d\/]{3})([\d\/])([089\/])\s+([\d\/]{3})([01\/])([01\/])\s+([\d\/]{3})([\d\/]{2})\s+([\d\/]{2})([\d\/]{2})([\d\/])\s+\/([\d\/])([\d\/]{3})(?:\s+([\d\/])([\d\/]{2})([\d\/]{2}))?(?:\s+([\d\/])([\d\/])([\d\/]{3}))?$/);
+			/^9(222|555|777)9\s+(\d{2}\d{2})([0-7\/])\s+([1-7\/])([0-35-8\/])([\d\/]{3})\s+([\d\/]{3})([\d\/])([089\/])\s+([\d\/]{3})([01\/])([01\/])\s+([\d\/]{3})([\d\/]{2})\s+([\d\/]{2})([\d\/]{2})([\d\/])\s+\/([\d\/])([\d\/]{3})(?:\s+([\d\/])([\d\/]{2})([\d\/]{2}))?(?:\s+([\d\/])([\d\/])([\d\/]{3}))?$/,
+			WmoErrorCode.missingReccoObservation);
 		//    9   1:XXX     9    2:GGgg     3:id        4:Yday   5:Quad      6:Lat         7:Lon      8:B     9:fc        10:ha      11:dt   12:da      13:ddd     14:ff         15:TT      16:Td      17:w         18:j    19:HHH NA        20:m    21:swd     21:sws        NA   22:stm  23:v    24:stv
 		
 		this.radarCapability = dl[1] === '222' ? -1 : (dl[1] === '777' ? 1 : 0);
-		if (dl[2])
-			this.observationDate = new WmoDate(dl[2] + 'Z', 'HHmmX', date);
+		// The observation is made shortly before the bulletin is sent, so it is on or before the heading date/time
+		if (dl[2]) {
+			const t = parseInt(dl[2]);
+			this.observationDate = WmoDateResolver.resolve({hour: Math.floor(t / 100), minute: t % 100},
+				date ?? p.getDateContext(), {bias: 'backward', tolerance: 60});
+		}
 		this.dewPointCapability = this.asInt(dl[3]);
 
 		this.dayOfWeek = this.asInt(dl[4]);
@@ -203,6 +231,57 @@ stv - surface temp value
 		return strVal && strVal[0] !== '/' ? parseInt(strVal) : null;
 	}
 	
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			radar: num,
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			dewCap: num,
+			day: num,
+			qaud: num,
+			pos: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			turb: num,
+			flightCond: num,
+			alt: num,
+			windType: num,
+			windMethod: num,
+			windDir: num,
+			windSpeed: num,
+			temp: num,
+			dew: num,
+			weatherCond: num,
+			psurLvl: num,
+			psurVal: num,
+			surfWinDir: num,
+			surfWinSpd: num
+		});
+	}
+	
+	public static fromJSON(json: IUrxx10_11Observation): Urxx10_11Observation {
+		return Object.assign(Object.create(Urxx10_11Observation.prototype) as Urxx10_11Observation, {
+			radarCapability: json.radar,
+			observationDate: WmoDate.fromJSON(json.time),
+			dewPointCapability: json.dewCap,
+			dayOfWeek: json.day,
+			quadrant: json.qaud,
+			coordinates: json.pos,
+			turbulence: json.turb,
+			flightCond: json.flightCond,
+			altitude: json.alt,
+			windType: json.windType,
+			windMethod: json.windMethod,
+			windDir: json.windDir,
+			windSpeed: json.windSpeed,
+			temperature: json.temp,
+			dewPoint: json.dew,
+			weatherCond: json.weatherCond,
+			pressureLevel: json.psurLvl,
+			pressureValue: json.psurVal,
+			surfaceWindDir: json.surfWinDir,
+			surfaceWindSpeed: json.surfWinSpd
+		});
+	}
+	
 	public toJSON(): IUrxx10_11Observation {
 		return {
 			radar: this.radarCapability,
@@ -249,12 +328,13 @@ export class Urxx10_11Mission implements IWmoObject {
 	public readonly name: string | null = null;
 	public readonly obsNo: number;
 
-	public constructor(p: WmoParser) {
-		// Parse mission identifier line
+	public constructor(p: WmoParser, prefix: string = 'RMK') {
+		// Parse mission identifier line (the prefix is "P." in the vortex data message)
 		// RMK AF305 1511A JOAQUIN OB 13
 		const idl = p.assert(
 			'Expected mission identifier line',
-			/^RMK\s+(NOAA|AF|UAS)(\w+)\s+(\d{2}|[A-Z]{2})(\d{2}|[A-Z]{2})([AECW])\s+(\w+)\s+OB\s+(\d+).*$/);
+			new RegExp(`^${prefix}\\s+(NOAA|AF|UAS)(\\w+)\\s+(\\d{2}|[A-Z]{2})(\\d{2}|[A-Z]{2})([AECW])\\s+(\\w+)\\s+OB\\s+(\\d+).*$`),
+			WmoErrorCode.missingReccoMission);
 		//          1:agency         2:acft  3:misno         4:storm     5:basin    6:name       7:seq
 
 		// Set agency and aircraft
@@ -273,6 +353,26 @@ export class Urxx10_11Mission implements IWmoObject {
 		this.obsNo = parseInt(idl[7] ?? '-1');
 	}
 
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			agency: text,
+			aircraft: text,
+			missionSeq: text,
+			stormId: text,
+			basin: text,
+			name: text,
+			obsNo: WmoSchema.nullable(WmoSchema.integer())
+		});
+	}
+
+	public static fromJSON(json: IUrxx10_11Mission): Urxx10_11Mission {
+		return Object.assign(Object.create(Urxx10_11Mission.prototype) as Urxx10_11Mission, {
+			...json,
+			obsNo: json.obsNo ?? -1
+		});
+	}
+
 	public toJSON(): IUrxx10_11Mission {
 		return {
 			agency: this.agency,
@@ -360,6 +460,32 @@ export class Urxx10_11Remarks implements IWmoObject {
 		}
 	}
 
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		const flag = WmoSchema.nullable(WmoSchema.boolean());
+		return WmoSchema.object({
+			text: text,
+			sws: WmoSchema.nullable(WmoSchema.number()),
+			in: text,
+			out: text,
+			overland: flag,
+			estimated: flag,
+			last: flag
+		});
+	}
+
+	public static fromJSON(json: IUrxx10_11Remarks): Urxx10_11Remarks {
+		return Object.assign(Object.create(Urxx10_11Remarks.prototype) as Urxx10_11Remarks, {
+			text: json.text,
+			sws: json.sws,
+			inbound: json.in,
+			outbound: json.out,
+			overland: json.overland ?? false,
+			estimated: json.estimated ?? false,
+			lastReport: json.last ?? false
+		});
+	}
+
 	public toJSON(): IUrxx10_11Remarks {
 		return {
 			text: this.text,
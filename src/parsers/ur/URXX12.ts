@@ -0,0 +1,506 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the raw Urxx12 Vortex Data Message (VDM), which is the official center fix made by the recon aircraft. Both the
+ * current layout (items A. to U., with the inbound and outbound max winds) and the older layout (items A. to P.) are read.
+ * Details can be found in the National Hurricane Operations Plan.
+ * A link to the current version can be found on the footer of the NHC Homepage:
+ * https://nhc.noaa.gov / https://www.nhc.noaa.gov/nhop.html
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoCoordinates, IWmoObject} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IUrxx10_11Mission, Urxx10_11Mission} from "./URXX10_11.js";
+
+// Parses an integer or decimal value, where NA (or a missing value) is null
+function toNumber(value: string | undefined): number | null {
+	return value === undefined || value.match(/^NA$/i) ? null : parseFloat(value);
+}
+
+// 045 deg 18 nm (with the time in the current layout, i.e. 047 deg 6 nm 17:51:00Z) - Bearing and range from the center
+const windRange = /^(\d+)\s+deg\s+(\d+)\s+nm(?:\s+(\d{2}):(\d{2}):(\d{2})Z)?$/i;
+
+// EXTRAP 994 mb (or 994 mb by dropsonde) - Minimum sea-level pressure
+const minPressure = /^(EXTRAP\s+)?(\d+)\s+mb$/i;
+
+// C20 (or E20/10, CO8-16) - Eye shape and diameter(s)
+const eyeShape = /^(CO|C|E)?\s*([\d\s\/-]*)$/i;
+
+// Builds a wind from its speed and direction, and the bearing, range and time from the center (if given)
+function toWind(direction: number | null, speed: number | null, range: RegExpMatchArray | null,
+				fixTime: WmoDate): IUrxx12WindDate {
+	return {
+		direction: direction,
+		speed: speed,
+		bearing: toNumber(range?.[1]),
+		range: toNumber(range?.[2]),
+		time: range?.[3] ? WmoDateResolver.resolve({
+			hour: parseInt(range[3]),
+			minute: parseInt(range[4] ?? 'NaN'),
+			second: parseInt(range[5] ?? 'NaN')
+		}, fixTime) : null
+	};
+}
+
+function toMinPressure(m: RegExpMatchArray): IUrxx12MinPressure {
+	return {
+		pressure: parseInt(m[2] ?? 'NaN'),
+		extrapolated: !!m[1]
+	};
+}
+
+// Builds the eye from its character (i.e. OPEN SW) and the matched eye shape (i.e. C20)
+function toEye(text: string | undefined, eyeText: RegExpMatchArray | null): IUrxx12Eye | null {
+	const character = text?.match(/^NA$/i) ? null : text ?? null;
+	if (character === null && eyeText === null)
+		return null;
+
+	const shape = eyeText?.[1]?.toUpperCase();
+	return {
+		character: character,
+		shape: shape === 'C' ? 'circular' : shape === 'E' ? 'elliptical' : shape === 'CO' ? 'concentric' : null,
+		diameters: eyeText?.[2]?.match(/\d+/g)?.map(d => parseInt(d)) ?? [],
+		text: eyeText?.[0] ?? null
+	};
+}
+
+function windToJSON(wind: IUrxx12WindDate | null): IUrxx12Wind | null {
+	return wind ? {...wind, time: wind.time?.toJSON() ?? null} : null;
+}
+
+function windFromJSON(wind: IUrxx12Wind | null): IUrxx12WindDate | null {
+	return wind ? {...wind, time: WmoDate.fromJSON(wind.time)} : null;
+}
+
+export interface IUrxx12StandardLevel {
+	pressure: number;
+	height: number | null;
+}
+
+export interface IUrxx12Wind {
+	direction: number | null;
+	speed: number | null;
+	bearing: number | null;
+	range: number | null;
+	time: IWmoDate | null;
+}
+
+interface IUrxx12WindDate extends Omit<IUrxx12Wind, 'time'> {
+	time: WmoDate | null;
+}
+
+export interface IUrxx12MinPressure {
+	pressure: number;
+	extrapolated: boolean;
+}
+
+export interface IUrxx12Temperature {
+	temperature: number | null;
+	altitude: number | null;
+}
+
+export interface IUrxx12Eye {
+	character: string | null;
+	shape: string | null;
+	diameters: number[];
+	text: string | null;
+}
+
+export interface IUrxx12FixMethod {
+	method: string;
+	configuration: number | null;
+}
+
+export interface IUrxx12Accuracy {
+	navigation: number | null;
+	meteorological: number | null;
+}
+
+export interface IUrxx12 extends IWmoMessage {
+	stormId: string | null;
+	fixTime: IWmoDate | null;
+	fixPosition: IWmoCoordinates | null;
+	standardLevel: IUrxx12StandardLevel | null;
+	maxSurfaceWind: IUrxx12Wind | null;
+	maxFlightLevelWind: IUrxx12Wind | null;
+	maxOutboundSurfaceWind: IUrxx12Wind | null;
+	maxOutboundFlightLevelWind: IUrxx12Wind | null;
+	centerWind: IUrxx12Wind | null;
+	minPressure: IUrxx12MinPressure | null;
+	outsideEye: IUrxx12Temperature | null;
+	insideEye: IUrxx12Temperature | null;
+	dewPoint: number | null;
+	seaSurface: number | null;
+	eye: IUrxx12Eye | null;
+	fixMethod: IUrxx12FixMethod | null;
+	accuracy: IUrxx12Accuracy | null;
+	mission: IUrxx10_11Mission | null;
+	remarks: IUrxx12Remarks | null;
+}
+
+export class URXX12 extends WmoMessage {
+
+	public readonly stormId: string | null = null;
+	public readonly fixTime: WmoDate | null = null;
+	public readonly fixPosition: IWmoCoordinates | null = null;
+	public readonly standardLevel: IUrxx12StandardLevel | null = null;
+	public readonly maxSurfaceWind: IUrxx12WindDate | null = null;
+	public readonly maxFlightLevelWind: IUrxx12WindDate | null = null;
+	public readonly maxOutboundSurfaceWind: IUrxx12WindDate | null = null;
+	public readonly maxOutboundFlightLevelWind: IUrxx12WindDate | null = null;
+	public readonly centerWind: IUrxx12WindDate | null = null;
+	public readonly minPressure: IUrxx12MinPressure | null = null;
+	public readonly outsideEye: IUrxx12Temperature | null = null;
+	public readonly insideEye: IUrxx12Temperature | null = null;
+	public readonly dewPoint: number | null = null;
+	public readonly seaSurface: number | null = null;
+	public readonly eye: IUrxx12Eye | null = null;
+	public readonly fixMethod: IUrxx12FixMethod | null = null;
+	public readonly accuracy: IUrxx12Accuracy | null = null;
+	public readonly mission: Urxx10_11Mission | null;
+	public readonly remarks: Urxx12Remarks | null;
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Helper parser variable
+		const p = wmoFile.parser;
+
+		// VORTEX DATA MESSAGE           AL112015
+		const header = p.assert('Expected vortex data message header', /^VORTEX DATA MESSAGE(?:\s+(\w+))?$/i,
+			WmoErrorCode.missingVdmHeader);
+		this.stormId = header[1] ?? null;
+
+		// Current VDMs have items A. to U. (where U. is the mission), while older VDMs have items A. to P.
+		const lines = p.getLines();
+		const last = lines.findIndex(l => l.trim() === ';');
+		const current = lines.slice(0, last < 0 ? undefined : last).some(l => l.match(/^[Q-U]\./));
+		const missionItem = current ? 'U' : 'P';
+
+		// Collect the text of each lettered item (up to the mission), where an item may continue on the next line (i.e. B.)
+		const items = new Map<string, string>();
+		let letter: string | null = null;
+		for (let next = p.peek(); next !== undefined && !next.startsWith(`${missionItem}.`); next = p.peek()) {
+			const line = p.extract()?.[0] ?? '';
+			const item = line.match(current ? /^([A-T])\.\s*(.*)$/ : /^([A-O])\.\s*(.*)$/);
+			if (item) {
+				letter = item[1] ?? '';
+				items.set(letter, item[2] ?? '');
+			} else if (letter && line) {
+				items.set(letter, `${items.get(letter) ?? ''} ${line}`);
+			} else if (line) {
+				// Only warn when lenient, since the remaining items can still be parsed
+				if (!p.isLenient())
+					p.error(`Unexpected vortex data message line "${line}"`, {code: WmoErrorCode.badVdmItem});
+				p.warn(`Unexpected vortex data message line "${line}"`, WmoErrorCode.badVdmItem);
+			}
+		}
+
+		// Decodes an item, recording an error if the item does not match the expected format
+		const decode = <T>(item: string, pattern: RegExp, parse: (m: RegExpMatchArray) => T): T | null => {
+			const text = items.get(item);
+			if (text === undefined || text.match(/^NA$/i))
+				return null;
+			const m = text.match(pattern);
+			if (m)
+				return parse(m);
+
+			// Only warn when lenient (leaving the item empty), since the remaining items can still be parsed
+			const message = `Invalid vortex data message item ${item}. "${text}"`;
+			if (!p.isLenient())
+				p.error(message, {code: WmoErrorCode.badVdmItem});
+			p.warn(message, WmoErrorCode.badVdmItem);
+			return null;
+		};
+
+		// A. 28/17:34:10Z - Date and time of the fix
+		this.fixTime = decode('A', /^(\d{2})\/(\d{2}):(\d{2})(?::(\d{2}))?Z$/i, m => WmoDateResolver.resolve({
+			day: parseInt(m[1] ?? 'NaN'),
+			hour: parseInt(m[2] ?? 'NaN'),
+			minute: parseInt(m[3] ?? 'NaN'),
+			second: m[4] ? parseInt(m[4]) : null
+		}, wmoFile.header.datetime, {bias: 'backward'}));
+		const fixTime = this.fixTime ?? wmoFile.header.datetime;
+
+		// B. 26 deg 50 min N 070 deg 43 min W (or 23.08 deg N 088.02 deg W) - Position of the fix
+		this.fixPosition = decode('B',
+			/^(\d+(?:\.\d+)?)\s+deg\s+(?:(\d+)\s+min\s+)?([NS])\s+(\d+(?:\.\d+)?)\s+deg\s+(?:(\d+)\s+min\s+)?([EW])$/i,
+			m => ({
+				lat: (parseFloat(m[1] ?? 'NaN') + parseInt(m[2] ?? '0') / 60) * (m[3]?.toUpperCase() === 'S' ? -1 : 1),
+				lon: (parseFloat(m[4] ?? 'NaN') + parseInt(m[5] ?? '0') / 60) * (m[6]?.toUpperCase() === 'W' ? -1 : 1)
+			}));
+
+		// C. 700 mb 2960 m - Minimum height at the standard level
+		this.standardLevel = decode('C', /^(\d+)\s+mb\s+(\d+|NA)(?:\s+m)?$/i, m => ({
+			pressure: parseInt(m[1] ?? 'NaN'),
+			height: toNumber(m[2])
+		}));
+
+		// 59 kt (with 045 deg 18 nm 17:30:00Z) - Estimated max surface wind, with its bearing and range from the center
+		const surfaceWind = (speedItem: string, rangeItem: string): IUrxx12WindDate | null => {
+			const speed = decode(speedItem, /^(\d+)\s+kt$/i, m => parseInt(m[1] ?? 'NaN'));
+			const range = decode(rangeItem, windRange, m => m);
+			return speed !== null || range !== null ? toWind(null, speed, range, fixTime) : null;
+		};
+
+		// 139 deg 59 kt (with 051 deg 25 nm 17:30:00Z) - Max flight-level wind, with its bearing and range from the center
+		const flightLevelWind = (windItem: string, rangeItem: string): IUrxx12WindDate | null => {
+			const wind = decode(windItem, /^(\d+)\s+deg\s+(\d+)\s+kt$/i, m => m);
+			const range = decode(rangeItem, windRange, m => m);
+			return wind !== null || range !== null ? toWind(toNumber(wind?.[1]), toNumber(wind?.[2]), range, fixTime) : null;
+		};
+
+		if (current) {
+			// D. 929 mb (or EXTRAP 994 mb) - Minimum sea-level pressure
+			this.minPressure = decode('D', minPressure, toMinPressure);
+
+			// E. 140 deg 7 kt - Surface wind at the center (by dropsonde)
+			this.centerWind = decode('E', /^(\d+)\s+deg\s+(\d+)\s+kt$/i,
+				m => toWind(toNumber(m[1]), toNumber(m[2]), null, fixTime));
+
+			// F. CLOSED / G. C8 - Eye character, and the eye shape and diameter(s)
+			this.eye = toEye(items.get('F'), decode('G', eyeShape, m => m));
+
+			// H. 140 kt / I. 047 deg 6 nm 17:51:00Z - Inbound max surface wind
+			this.maxSurfaceWind = surfaceWind('H', 'I');
+
+			// J. 134 deg 132 kt / K. 045 deg 7 nm 17:50:30Z - Inbound max flight-level wind
+			this.maxFlightLevelWind = flightLevelWind('J', 'K');
+
+			// L. 133 kt / M. 225 deg 6 nm 17:56:30Z - Outbound max surface wind
+			this.maxOutboundSurfaceWind = surfaceWind('L', 'M');
+
+			// N. 320 deg 141 kt / O. 224 deg 6 nm 17:56:00Z - Outbound max flight-level wind
+			this.maxOutboundFlightLevelWind = flightLevelWind('N', 'O');
+		} else {
+			// D. 59 kt / E. 045 deg 18 nm - Estimated inbound max surface wind
+			this.maxSurfaceWind = surfaceWind('D', 'E');
+
+			// F. 139 deg 59 kt / G. 051 deg 25 nm - Inbound max flight-level wind
+			this.maxFlightLevelWind = flightLevelWind('F', 'G');
+
+			// H. EXTRAP 994 mb (or 994 mb by dropsonde) - Minimum sea-level pressure
+			this.minPressure = decode('H', minPressure, toMinPressure);
+		}
+
+		// I. 10 C / 3050 m / J. 14 C / 3046 m (P. / Q. in the current layout)
+		// Max flight-level temperature (and pressure altitude) outside and inside the eye
+		const temperature = (m: RegExpMatchArray): IUrxx12Temperature => ({
+			temperature: toNumber(m[1]),
+			altitude: toNumber(m[2])
+		});
+		this.outsideEye = decode(current ? 'P' : 'I', /^(-?\d+|NA)(?:\s+C)?\s*\/\s*(\d+|NA)(?:\s+m)?$/i, temperature);
+		this.insideEye = decode(current ? 'Q' : 'J', /^(-?\d+|NA)(?:\s+C)?\s*\/\s*(\d+|NA)(?:\s+m)?$/i, temperature);
+
+		// K. 10 C / NA (R. in the current layout) - Dew point and sea surface temperature inside the eye
+		const dewPoint = decode(current ? 'R' : 'K', /^(-?\d+|NA)(?:\s+C)?\s*\/\s*(-?\d+|NA)(?:\s+C)?$/i, m => m);
+		this.dewPoint = toNumber(dewPoint?.[1]);
+		this.seaSurface = toNumber(dewPoint?.[2]);
+
+		// L. OPEN SW / M. C20 (or E20/10, CO8-16) - Eye character, and the eye shape and diameter(s)
+		if (!current)
+			this.eye = toEye(items.get('L'), decode('M', eyeShape, m => m));
+
+		// N. 12345 / 7 (S. in the current layout) - Fix method (and the aircraft configuration)
+		this.fixMethod = decode(current ? 'S' : 'N', /^(\d+)(?:\s*\/\s*(\d+))?$/, m => ({
+			method: m[1] ?? '',
+			configuration: toNumber(m[2])
+		}));
+
+		// O. 0.02 / 1 nm (T. in the current layout) - Navigation and meteorological accuracy
+		this.accuracy = decode(current ? 'T' : 'O', /^(\d+(?:\.\d+)?|NA)\s*\/\s*(\d+(?:\.\d+)?|NA)(?:\s+nm)?$/i, m => ({
+			navigation: toNumber(m[1]),
+			meteorological: toNumber(m[2])
+		}));
+
+		// P. AF305 1511A JOAQUIN OB 13 (or U. AF302 0914A MILTON OB 18)
+		this.mission = p.recover(() => new Urxx10_11Mission(p, `${missionItem}\\.`));
+
+		// Process remarks
+		this.remarks = p.recover(() => new Urxx12Remarks(p, fixTime));
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		const wind = WmoSchema.nullable(WmoSchema.object({
+			direction: num,
+			speed: num,
+			bearing: num,
+			range: num,
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+		}));
+		const temperature = WmoSchema.nullable(WmoSchema.object({
+			temperature: num,
+			altitude: num
+		}));
+		return WmoSchema.object({
+			stormId: WmoSchema.nullable(WmoSchema.string()),
+			fixTime: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			fixPosition: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			standardLevel: WmoSchema.nullable(WmoSchema.object({
+				pressure: WmoSchema.number(),
+				height: num
+			})),
+			maxSurfaceWind: wind,
+			maxFlightLevelWind: wind,
+			maxOutboundSurfaceWind: wind,
+			maxOutboundFlightLevelWind: wind,
+			centerWind: wind,
+			minPressure: WmoSchema.nullable(WmoSchema.object({
+				pressure: WmoSchema.number(),
+				extrapolated: WmoSchema.boolean()
+			})),
+			outsideEye: temperature,
+			insideEye: temperature,
+			dewPoint: num,
+			seaSurface: num,
+			eye: WmoSchema.nullable(WmoSchema.object({
+				character: WmoSchema.nullable(WmoSchema.string()),
+				shape: WmoSchema.nullable(WmoSchema.string()),
+				diameters: WmoSchema.array(WmoSchema.number()),
+				text: WmoSchema.nullable(WmoSchema.string())
+			})),
+			fixMethod: WmoSchema.nullable(WmoSchema.object({
+				method: WmoSchema.string(),
+				configuration: num
+			})),
+			accuracy: WmoSchema.nullable(WmoSchema.object({
+				navigation: num,
+				meteorological: num
+			})),
+			mission: WmoSchema.nullable(Urxx10_11Mission.schema()),
+			remarks: WmoSchema.nullable(Urxx12Remarks.schema())
+		});
+	}
+
+	public static fromJSON(json: IUrxx12, wmoFile: WmoFile): URXX12 {
+		return Object.assign(Object.create(URXX12.prototype) as URXX12, {
+			wmoFile: wmoFile,
+			...json,
+			fixTime: WmoDate.fromJSON(json.fixTime),
+			maxSurfaceWind: windFromJSON(json.maxSurfaceWind),
+			maxFlightLevelWind: windFromJSON(json.maxFlightLevelWind),
+			maxOutboundSurfaceWind: windFromJSON(json.maxOutboundSurfaceWind),
+			maxOutboundFlightLevelWind: windFromJSON(json.maxOutboundFlightLevelWind),
+			centerWind: windFromJSON(json.centerWind),
+			mission: json.mission ? Urxx10_11Mission.fromJSON(json.mission) : null,
+			remarks: json.remarks ? Urxx12Remarks.fromJSON(json.remarks) : null
+		});
+	}
+
+	public override toJSON(): IUrxx12 {
+		return {
+			stormId: this.stormId,
+			fixTime: this.fixTime?.toJSON() ?? null,
+			fixPosition: this.fixPosition,
+			standardLevel: this.standardLevel,
+			maxSurfaceWind: windToJSON(this.maxSurfaceWind),
+			maxFlightLevelWind: windToJSON(this.maxFlightLevelWind),
+			maxOutboundSurfaceWind: windToJSON(this.maxOutboundSurfaceWind),
+			maxOutboundFlightLevelWind: windToJSON(this.maxOutboundFlightLevelWind),
+			centerWind: windToJSON(this.centerWind),
+			minPressure: this.minPressure,
+			outsideEye: this.outsideEye,
+			insideEye: this.insideEye,
+			dewPoint: this.dewPoint,
+			seaSurface: this.seaSurface,
+			eye: this.eye,
+			fixMethod: this.fixMethod,
+			accuracy: this.accuracy,
+			mission: this.mission?.toJSON() ?? null,
+			remarks: this.remarks?.toJSON() ?? null
+		};
+	}
+}
+
+export interface IUrxx12WindLeg {
+	outbound: boolean | null;
+	speed: number;
+	bearing: number | null;
+	range: number | null;
+	quadrant: string | null;
+	time: IWmoDate | null;
+}
+
+interface IUrxx12WindLegDate extends Omit<IUrxx12WindLeg, 'time'> {
+	time: WmoDate | null;
+}
+
+export interface IUrxx12Remarks {
+	text: string | null;
+	maxWinds: IUrxx12WindLeg[];
+}
+
+export class Urxx12Remarks implements IWmoObject {
+
+	public readonly text: string | null = null;
+	public readonly maxWinds: IUrxx12WindLegDate[] = [];
+
+	public constructor(p: WmoParser, fixTime: WmoDate) {
+		// Continue to loop over the file to pull out the max flight-level winds, or add the remark text
+		for (let l = p.extract()?.[0]; l && l !== ';'; l = p.extract()?.[0]) {
+			this.text = this.text ? `${this.text}\n${l}` : l;
+
+			// MAX FL WIND 59 KT 051 / 25 NM 17:30:00Z (or MAX OUTBOUND FL WIND 65 KT NE QUAD 17:40:30Z)
+			const leg = l.match(/^MAX\s+(?:(INBOUND|OUTBOUND)\s+)?FL\s+WIND\s+(\d+)\s+KT(?:\s+(\d+)\s*\/\s*(\d+)\s+NM)?(?:\s+([NSEW]{1,2})\s+QUAD)?(?:\s+(\d{2}):(\d{2}):(\d{2})Z)?/i);
+			if (!leg)
+				continue;
+
+			this.maxWinds.push({
+				outbound: leg[1] ? leg[1].toUpperCase() === 'OUTBOUND' : null,
+				speed: parseInt(leg[2] ?? 'NaN'),
+				bearing: toNumber(leg[3]),
+				range: toNumber(leg[4]),
+				quadrant: leg[5] ?? null,
+				time: leg[6] ? WmoDateResolver.resolve({
+					hour: parseInt(leg[6]),
+					minute: parseInt(leg[7] ?? 'NaN'),
+					second: parseInt(leg[8] ?? 'NaN')
+				}, fixTime) : null
+			});
+		}
+
+		// Skip ; if there
+		p.extract(/;/);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			text: WmoSchema.nullable(WmoSchema.string()),
+			maxWinds: WmoSchema.array(WmoSchema.object({
+				outbound: WmoSchema.nullable(WmoSchema.boolean()),
+				speed: WmoSchema.number(),
+				bearing: num,
+				range: num,
+				quadrant: WmoSchema.nullable(WmoSchema.string()),
+				time: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+			}))
+		});
+	}
+
+	public static fromJSON(json: IUrxx12Remarks): Urxx12Remarks {
+		return Object.assign(Object.create(Urxx12Remarks.prototype) as Urxx12Remarks, {
+			text: json.text,
+			maxWinds: json.maxWinds.map(w => ({...w, time: WmoDate.fromJSON(w.time)}))
+		});
+	}
+
+	public toJSON(): IUrxx12Remarks {
+		return {
+			text: this.text,
+			maxWinds: this.maxWinds.map(w => ({...w, time: w.time?.toJSON() ?? null}))
+		};
+	}
+}
\ No newline at end of file
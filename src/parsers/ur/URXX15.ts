@@ -10,11 +10,14 @@
  * Released under the MIT License.
  */
 
-import {IWmoCoordinates, IWmoObject} from "../../WmoInterfaces.js";
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
 import {IWmoDate, WmoDate} from '../../WmoDate.js';
 import {WmoFile} from "../../WmoFile.js";
 import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
 import {WmoParser} from "../../WmoParser.js";
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
 
 export interface IUrxx15 extends IWmoMessage {
 	header: IUrxx15Header;
@@ -32,14 +35,32 @@ export class URXX15 extends WmoMessage {
 		// Parse header
 		this.header = new Urxx15Header(wmoFile.parser);
 		
-		// Continue data parsing until literal $$
+		// Continue data parsing until literal $$ (when lenient, bad data lines are skipped)
 		let nextLine = wmoFile.parser.peek();
 		while(nextLine && !nextLine.match(/\$\$/)) {
-			this.data.push(new Urxx15Data(wmoFile.parser, this.header));
+			const data = wmoFile.parser.recover(() =>
+				new Urxx15Data(wmoFile.parser, this.header, this.data[this.data.length - 1] ?? null));
+			if (data)
+				this.data.push(data);
 			nextLine = wmoFile.parser.peek();
 		}
 	}
 	
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			header: Urxx15Header.schema(),
+			data: WmoSchema.array(Urxx15Data.schema())
+		});
+	}
+	
+	public static fromJSON(json: IUrxx15, wmoFile: WmoFile): URXX15 {
+		return Object.assign(Object.create(URXX15.prototype) as URXX15, {
+			wmoFile: wmoFile,
+			header: Urxx15Header.fromJSON(json.header),
+			data: json.data.map(d => Urxx15Data.fromJSON(d))
+		});
+	}
+	
 	public override toJSON(): IUrxx15 {
 		return {
 			header: this.header.toJSON(),
@@ -77,7 +98,8 @@ export class Urxx15Header implements IWmoObject {
 		// 11112 33445 666666                  77 88888888
 		const headerLine = p.assert(
 			'Expected HDOB header line.',
-			/^\s*(\w+)(\d+)\s+(W[A-Z]|\d{2})(\d{2}|[A-Z]{2})([AECW])\s+(\w+?)\s+HDOB\s+(\d{2})\s+(\d{8})\s*$/);
+			/^\s*(\w+)(\d+)\s+(W[A-Z]|\d{2})(\d{2}|[A-Z]{2})([AECW])\s+(\w+?)\s+HDOB\s+(\d{2})\s+(\d{8})\s*$/,
+			WmoErrorCode.missingHdobHeader);
 		
 		this.agency = headerLine[1] ?? null;
 		this.aircraft = headerLine[2] ?? null;
@@ -91,6 +113,27 @@ export class Urxx15Header implements IWmoObject {
 			this.date = new WmoDate(headerLine[8] + 'Z', 'yyyyMMddX');
 	}
 	
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			agency: text,
+			aircraft: text,
+			missionNo: text,
+			stormNo: text,
+			location: text,
+			stormName: text,
+			obsNo: text,
+			date: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+		});
+	}
+	
+	public static fromJSON(json: IUrxx15Header): Urxx15Header {
+		return Object.assign(Object.create(Urxx15Header.prototype) as Urxx15Header, {
+			...json,
+			date: WmoDate.fromJSON(json.date)
+		});
+	}
+	
 	public toJSON(): IUrxx15Header {
 		return {
 			agency: this.agency,
@@ -134,6 +177,7 @@ export interface IUrxx15Data {
 	sfmrr: number | null;
 	pqal: IUrxx15PositionQuality | null;
 	mqal: IUrxx15MetricQuality | null;
+	span?: IWmoSourceSpan;
 }
 
 export class Urxx15Data implements IWmoObject {
@@ -153,8 +197,9 @@ export class Urxx15Data implements IWmoObject {
 	public readonly sfmrRain: number | null = null;
 	public readonly posQual: IUrxx15PositionQuality | null = null;
 	public readonly metQual: IUrxx15MetricQuality | null = null;
+	public readonly span: IWmoSourceSpan | null = null;
 	
-	public constructor(p: WmoParser, header: Urxx15Header) {
+	public constructor(p: WmoParser, header: Urxx15Header, previous: Urxx15Data | null = null) {
 		// 0         1         2         3         4         5         6         7
 		// 01234567890123456789012345678901234567890123456789012345678901234567890
 		// -----------------------------------------------------------------------
@@ -178,49 +223,64 @@ export class Urxx15Data implements IWmoObject {
 		//          (0) Normal (1) Tmp/Dew ?? (2) Flight Wind ?? (3) SFMR ?? (4) Temp/Dew + Flight Wind ??
 		//              (5) Temp/Dew + SFMR ?? (6) Flight Wind + SFMR ?? (9) All ??
 		
-		const l = p.assert(
+		// Rows are almost always in the fixed column layout above, so try decoding the columns directly before the regex
+		let line = '';
+		let match: RegExpMatchArray | null = null;
+		const v = p.extractWith(l => Urxx15Data.fixedColumns(line = l)) ?? Urxx15Data.decode(match = p.assert(
 			'Expected a data line, $$ end literal, or end of file',
-			/^\s*(\d{6})\s+(\d{2})(\d{2})([NS])\s+(\d{3})(\d{2})([EW])\s+(\d{4}|\/{4})\s+(\d{5}|\/{5})\s+(\d{4}|\/{4})\s+([+-]\d{3}|\/{4})\s+([+-]\d{3}|\/{4})\s+(\d{3}|\/{3})(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d)(\d)$/);
+			/^\s*(\d{6})\s+(\d{2})(\d{2})([NS])\s+(\d{3})(\d{2})([EW])\s+(\d{4}|\/{4})\s+(\d{5}|\/{5})\s+(\d{4}|\/{4})\s+([+-]\d{3}|\/{4})\s+([+-]\d{3}|\/{4})\s+(\d{3}|\/{3})(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d{3}|\/{3})\s+(\d)(\d)$/,
+			WmoErrorCode.badHdobData));
 		//       1:hhmmss  2:LL   3:LL   4:H      5:NNN  6:NN   7:W      8:PPPP          9:GGGGG        10:XXXX         11:sTTT             12:sddd             13:www         14:SSS        15:MMM          16:KKK          17:ppp          18:F19:F
 		
-		// Parse time, relative to header date
-		if (l[1])
-			this.time = new WmoDate(l[1] + 'Z', 'HHmmssX', header.date);
+		// Record where the data line was in the source (if enabled). The fixed columns always match the whole line.
+		this.span = p.span(undefined, match ?? (p.hasSpans() ? line.match(/^.*$/) : null));
 		
-		// Coordinates are in degrees + minutes
+		// Parse time. Observations are in order, so the time is the first one after the previous observation (or the
+		// header date), which handles observations after midnight. Allow slightly out of order observations.
+		const t = v[1];
+		if (t !== null && t !== undefined) {
+			this.time = WmoDateResolver.resolve(
+				{hour: Math.floor(t / 10000), minute: Math.floor(t / 100) % 100, second: t % 100},
+				previous?.time ?? header.date ?? p.getDateContext(),
+				{bias: 'forward', tolerance: previous?.time ? 60 : 0});
+		}
+		
+		// Coordinates are in degrees + minutes (the hemisphere is decoded as 1 for N/E and -1 for S/W)
 		this.coordinates = {
-			'lat': parseFloat(((parseInt(l[2] ?? '0') + parseInt(l[3] ?? '0')/60.0) * (l[4] === 'N' ? 1 : -1)).toFixed(3)),
-			'lon': parseFloat(((parseInt(l[5] ?? '0') + parseInt(l[6] ?? '0')/60.0) * (l[7] === 'E' ? 1 : -1)).toFixed(3))
+			'lat': parseFloat((((v[2] ?? 0) + (v[3] ?? 0)/60.0) * (v[4] === 1 ? 1 : -1)).toFixed(3)),
+			'lon': parseFloat((((v[5] ?? 0) + (v[6] ?? 0)/60.0) * (v[7] === 1 ? 1 : -1)).toFixed(3))
 		};
 		
-		// Static air pressure (1 is dropped if > 1000, so ifnthe first didget is <= 3, add the 1 back in)
-		this.craftPressure = l[8] && l[8][0] && l[8][0] !== '/' ? parseInt((parseInt(l[8][0]) <= 3 ? '1' : '') + l[8]) / 10.0 : null;
+		// Static air pressure (1 is dropped if > 1000, so if the first digit is <= 3, add the 1 back in)
+		const pressure = (p: number | null | undefined) => p !== null && p !== undefined ? (p < 4000 ? p + 10000 : p) / 10.0 : null;
+		this.craftPressure = pressure(v[8]);
 		
 		// Aircraft geopotential height
-		this.craftGeoHeight = l[9] && l[9][0] !== '/' ? parseInt(l[9]) : null;
+		this.craftGeoHeight = v[9] ?? null;
 		
 		// Extrapolated surface pressure (1 dropped if > 1000)
 		if (this.craftPressure && this.craftPressure > 550)
-			this.surfPressure = l[10] && l[10][0] && l[10][0] !== '/' ? parseInt((parseInt(l[10][0]) <= 3 ? '1' : '') + l[10]) / 10.0 : null;
+			this.surfPressure = pressure(v[10]);
 		else
-			this.dValue = l[10] && l[10][0] === '/' ? parseInt(l[10]) : null; // NOTE: 5000 is added to negative galues, but I need examples...
+			this.dValue = v[10] === null ? NaN : null; // NOTE: 5000 is added to negative galues, but I need examples...
 		
 		// Temperatures
-		this.airTemp = l[11] && l[11][0] !== '/' ? parseInt(l[11])/10.0 : null;
-		this.dewTemp = l[12] && l[12][0] !== '/' ? parseInt(l[12])/10.0 : null;
+		this.airTemp = v[11] !== null && v[11] !== undefined ? v[11]/10.0 : null;
+		this.dewTemp = v[12] !== null && v[12] !== undefined ? v[12]/10.0 : null;
 		
-		// Wind direction and speed
-		this.windDir = l[13] && l[13][0] !== '/' && l[13] !== '999' ? parseInt(l[13]) : null;
-		this.windSpeed = l[14] && l[14][0] !== '/' && l[14] !== '999' ? parseInt(l[14]) : null;
-		this.maxWind = l[15] && l[15][0] !== '/' && l[15] !== '999' ? parseInt(l[15]) : null;
+		// Wind direction and speed (999 = missing)
+		const wind = (w: number | null | undefined) => w !== null && w !== undefined && w !== 999 ? w : null;
+		this.windDir = wind(v[13]);
+		this.windSpeed = wind(v[14]);
+		this.maxWind = wind(v[15]);
 		
 		// SFMR readings
-		this.sfmrWind = l[16] && l[16][0] !== '/' && l[16] !== '999' ? parseInt(l[16]) : null;
-		this.sfmrRain = l[17] && l[17][0] !== '/' && l[17] !== '999' ? parseInt(l[17]) : null;
+		this.sfmrWind = wind(v[16]);
+		this.sfmrRain = wind(v[17]);
 		
 		// Quality control
-		if (l[18]) {
-			const posQual = parseInt(l[18]);
+		const posQual = v[18];
+		if (posQual !== null && posQual !== undefined) {
 			this.posQual = {
 				raw: posQual,
 				pos: posQual !== 1 && posQual !== 3,
@@ -228,8 +288,8 @@ export class Urxx15Data implements IWmoObject {
 			};
 		}
 
-		if (l[19]) {
-			const metQual = parseInt(l[19]);
+		const metQual = v[19];
+		if (metQual !== null && metQual !== undefined) {
 			this.metQual = {
 				raw: metQual,
 				temp: metQual !== 1 && metQual !== 4 && metQual !== 5 && metQual !== 9,
@@ -239,6 +299,122 @@ export class Urxx15Data implements IWmoObject {
 		}
 	}
 	
+	// The start column, length and allowed content of each group of the data line regex
+	private static readonly columns: [number, number, 'digits' | 'lat' | 'lon' | 'missing' | 'signed'][] = [
+		[0, 6, 'digits'], [7, 2, 'digits'], [9, 2, 'digits'], [11, 1, 'lat'], [13, 3, 'digits'], [16, 2, 'digits'],
+		[18, 1, 'lon'], [20, 4, 'missing'], [25, 5, 'missing'], [31, 4, 'missing'], [36, 4, 'signed'],
+		[41, 4, 'signed'], [46, 3, 'missing'], [49, 3, 'missing'], [53, 3, 'missing'], [57, 3, 'missing'],
+		[61, 3, 'missing'], [65, 1, 'digits'], [66, 1, 'digits']
+	];
+	
+	private static decode(l: RegExpMatchArray): (number | null)[] {
+		// Decode the regex groups the same way as the fixed columns (missing values are null)
+		return l.map((g, i) => i === 0 || !g || g[0] === '/'
+			? null
+			: g === 'N' || g === 'E' ? 1 : g === 'S' || g === 'W' ? -1 : parseInt(g));
+	}
+	
+	private static fixedColumns(line: string): (number | null)[] | null {
+		// Only lines with single spaces between the groups are in the fixed layout (anything else uses the regex)
+		if (line.length !== 67)
+			return null;
+		for (const col of [6, 12, 19, 24, 30, 35, 40, 45, 52, 56, 60, 64]) {
+			if (line.charCodeAt(col) !== 32)
+				return null;
+		}
+		
+		// Decode each group directly from the characters (which is much faster than a regex and parsing the groups),
+		// ensuring the group has the same content the regex allows
+		const values: (number | null)[] = [null];
+		for (const [start, length, kind] of Urxx15Data.columns) {
+			const first = line.charCodeAt(start);
+			if (kind === 'lat' || kind === 'lon') {
+				const north = kind === 'lat' ? 78 : 69;
+				const south = kind === 'lat' ? 83 : 87;
+				if (first !== north && first !== south)
+					return null;
+				values.push(first === north ? 1 : -1);
+				continue;
+			}
+			
+			// Missing values are all slashes
+			if (first === 47 && kind !== 'digits') {
+				for (let i = start + 1; i < start + length; ++i) {
+					if (line.charCodeAt(i) !== 47)
+						return null;
+				}
+				values.push(null);
+				continue;
+			}
+			
+			// Otherwise all digits (after the sign, if signed)
+			const signed = kind === 'signed';
+			if (signed && first !== 43 && first !== 45)
+				return null;
+			let value = 0;
+			for (let i = signed ? start + 1 : start; i < start + length; ++i) {
+				const digit = line.charCodeAt(i) - 48;
+				if (digit < 0 || digit > 9)
+					return null;
+				value = value * 10 + digit;
+			}
+			values.push(first === 45 ? -value : value);
+		}
+		return values;
+	}
+	
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			loc: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			acpr: num,
+			acal: num,
+			espr: num,
+			dval: num,
+			temp: num,
+			dewp: num,
+			wdir: num,
+			wspd: num,
+			wmax: num,
+			sfmrw: num,
+			sfmrr: num,
+			pqal: WmoSchema.nullable(WmoSchema.object({
+				raw: WmoSchema.integer(),
+				pos: WmoSchema.boolean(),
+				pral: WmoSchema.boolean()
+			})),
+			mqal: WmoSchema.nullable(WmoSchema.object({
+				raw: WmoSchema.integer(),
+				temp: WmoSchema.boolean(),
+				wind: WmoSchema.boolean(),
+				sfmr: WmoSchema.boolean()
+			})),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+	
+	public static fromJSON(json: IUrxx15Data): Urxx15Data {
+		return Object.assign(Object.create(Urxx15Data.prototype) as Urxx15Data, {
+			time: WmoDate.fromJSON(json.time),
+			coordinates: json.loc,
+			craftPressure: json.acpr,
+			craftGeoHeight: json.acal,
+			surfPressure: json.espr,
+			dValue: json.dval,
+			airTemp: json.temp,
+			dewTemp: json.dewp,
+			windDir: json.wdir,
+			windSpeed: json.wspd,
+			maxWind: json.wmax,
+			sfmrWind: json.sfmrw,
+			sfmrRain: json.sfmrr,
+			posQual: json.pqal,
+			metQual: json.mqal,
+			span: json.span ?? null
+		});
+	}
+	
 	public toJSON(): IUrxx15Data {
 		return {
 			time: this.time?.toJSON() ?? null,
@@ -255,7 +431,8 @@ export class Urxx15Data implements IWmoObject {
 			sfmrw: this.sfmrWind,
 			sfmrr: this.sfmrRain,
 			pqal: this.posQual,
-			mqal: this.metQual
+			mqal: this.metQual,
+			...(this.span ? {span: this.span} : {})
 		};
 	}
 	
@@ -0,0 +1,249 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the TEMP (FM-35) upper-air sounding bulletins, which have a report for each station made up of Part A (USxx,
+ * mandatory levels), Part B (UKxx, significant levels), Part C (ULxx, mandatory levels above 100 hPa) and Part D
+ * (UExx, significant levels above 100 hPa).
+ * Details can be found in the WMO Manual on Codes (WMO-No. 306), Volume I.1.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IUsxxLevel, IUsxxWind, UsxxCodes} from "./UsxxCodes.js";
+
+export interface IUsxx extends IWmoMessage {
+	stations: IUsxxStation[];
+}
+
+export class USXX extends WmoMessage {
+
+	public readonly stations: UsxxStation[] = [];
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Helper parser variable
+		const p = wmoFile.parser;
+
+		// Parse each part (which ends with a =), until the end of the bulletin
+		for (let next = p.peek(); next !== undefined && next !== ';' && next !== 'NNNN'; next = p.peek()) {
+			if (!next.trim()) {
+				p.skipEmpty();
+				continue;
+			}
+
+			const part = p.recover(() => new UsxxPart(p, wmoFile.header.datetime), /^TT(AA|BB|CC|DD)\s|^;|^NNNN/);
+			if (!part)
+				continue;
+
+			// Group the parts of each station's sounding
+			const station = this.stations.find(s => s.station === part.station);
+			if (station)
+				station.parts.push(part);
+			else
+				this.stations.push(new UsxxStation(part.station, [part]));
+		}
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			stations: WmoSchema.array(UsxxStation.schema())
+		});
+	}
+
+	public static fromJSON(json: IUsxx, wmoFile: WmoFile): USXX {
+		return Object.assign(Object.create(USXX.prototype) as USXX, {
+			wmoFile: wmoFile,
+			stations: json.stations.map(s => UsxxStation.fromJSON(s))
+		});
+	}
+
+	public override toJSON(): IUsxx {
+		return {
+			stations: this.stations.map(s => s.toJSON())
+		};
+	}
+}
+
+export interface IUsxxStation {
+	station: string;
+	parts: IUsxxPart[];
+}
+
+export class UsxxStation implements IWmoObject {
+
+	public readonly station: string;
+	public readonly parts: UsxxPart[];
+
+	public constructor(station: string, parts: UsxxPart[]) {
+		this.station = station;
+		this.parts = parts;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			station: WmoSchema.string(),
+			parts: WmoSchema.array(UsxxPart.schema())
+		});
+	}
+
+	public static fromJSON(json: IUsxxStation): UsxxStation {
+		return new UsxxStation(json.station, json.parts.map(p => UsxxPart.fromJSON(p)));
+	}
+
+	public toJSON(): IUsxxStation {
+		return {
+			station: this.station,
+			parts: this.parts.map(p => p.toJSON())
+		};
+	}
+}
+
+export interface IUsxxPart {
+	part: string;
+	station: string;
+	time: IWmoDate | null;
+	launchTime: IWmoDate | null;
+	knots: boolean;
+	nil: boolean;
+	levels: IUsxxLevel[];
+	winds: IUsxxWind[];
+	tropopauses: IUsxxLevel[];
+	maxWinds: IUsxxWind[];
+	span?: IWmoSourceSpan;
+}
+
+export class UsxxPart implements IWmoObject {
+
+	public readonly part: string;
+	public readonly station: string;
+	public readonly time: WmoDate | null = null;
+	public readonly launchTime: WmoDate | null = null;
+	public readonly knots: boolean;
+	public readonly nil: boolean;
+	public readonly levels: IUsxxLevel[] = [];
+	public readonly winds: IUsxxWind[] = [];
+	public readonly tropopauses: IUsxxLevel[] = [];
+	public readonly maxWinds: IUsxxWind[] = [];
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, reference: WmoDate) {
+		// Read the groups of the part, up to (and including) the line ending with a =
+		// TTAA 58121 72210 99014 25657 15010 00118 25257 16512 92803 21056
+		// ...
+		// 58708 81101 41414 21///=
+		const start = p.mark();
+		let text = '';
+		for (let line = p.extract()?.[0]; line !== undefined; line = p.extract()?.[0]) {
+			text += ` ${line}`;
+			if (line.match(/=\s*$/))
+				break;
+		}
+		const groups = text.replace(/=\s*$/, '').trim().split(/\s+/);
+
+		// TTAA 58121 72210
+		// 1111 2233a 44444
+		const header = groups.slice(0, 3).join(' ').match(/^TT(AA|BB|CC|DD)\s+(\d{2})(\d{2})([\d\/])\s+(\d{5})$/);
+		if (!header)
+			p.error('Invalid TEMP part header', {code: WmoErrorCode.badTempGroup});
+		this.part = header[1] ?? '';
+		this.station = header[5] ?? '';
+
+		// The day has 50 added when the winds are in knots
+		const day = parseInt(header[2] ?? 'NaN');
+		this.knots = day > 50;
+		this.time = WmoDateResolver.resolve({
+			day: day > 50 ? day - 50 : day,
+			hour: parseInt(header[3] ?? 'NaN'),
+			minute: 0
+		}, reference);
+
+		// TTAA 58121 72235 NIL= (no report from the station)
+		this.nil = groups[3] === 'NIL';
+		if (this.nil) {
+			this.span = p.span(start);
+			return;
+		}
+
+		// Parts C and D are above 100 hPa, where the pressures are in tenths
+		const above100 = this.part === 'CC' || this.part === 'DD';
+		let end: number;
+		if (this.part === 'AA' || this.part === 'CC') {
+			const mandatory = UsxxCodes.mandatory(p, groups, 3, header[4] ?? '/', above100, WmoErrorCode.badTempGroup);
+			this.levels = mandatory.levels;
+			this.tropopauses = mandatory.tropopauses;
+			this.maxWinds = mandatory.maxWinds;
+			end = mandatory.end;
+		} else {
+			const significant = UsxxCodes.significant(p, groups, 3, above100, WmoErrorCode.badTempGroup);
+			this.levels = significant.levels;
+			this.winds = significant.winds;
+			end = significant.end;
+		}
+
+		// 31313 58708 81101 - The actual launch hour and minute
+		const launch = UsxxCodes.sections(groups, end).get('31313')?.[1]?.match(/^8(\d{2})(\d{2})$/);
+		if (launch && this.time) {
+			this.launchTime = WmoDateResolver.resolve({
+				hour: parseInt(launch[1] ?? 'NaN'),
+				minute: parseInt(launch[2] ?? 'NaN')
+			}, this.time);
+		}
+
+		// Record where the part was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const date = WmoSchema.nullable(WmoSchema.ref('WmoDate'));
+		return WmoSchema.object({
+			part: WmoSchema.string(),
+			station: WmoSchema.string(),
+			time: date,
+			launchTime: date,
+			knots: WmoSchema.boolean(),
+			nil: WmoSchema.boolean(),
+			levels: WmoSchema.array(UsxxCodes.levelSchema()),
+			winds: WmoSchema.array(UsxxCodes.windSchema()),
+			tropopauses: WmoSchema.array(UsxxCodes.levelSchema()),
+			maxWinds: WmoSchema.array(UsxxCodes.windSchema()),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IUsxxPart): UsxxPart {
+		return Object.assign(Object.create(UsxxPart.prototype) as UsxxPart, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			launchTime: WmoDate.fromJSON(json.launchTime),
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IUsxxPart {
+		return {
+			part: this.part,
+			station: this.station,
+			time: this.time?.toJSON() ?? null,
+			launchTime: this.launchTime?.toJSON() ?? null,
+			knots: this.knots,
+			nil: this.nil,
+			levels: this.levels,
+			winds: this.winds,
+			tropopauses: this.tropopauses,
+			maxWinds: this.maxWinds,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
\ No newline at end of file
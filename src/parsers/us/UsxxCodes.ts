@@ -0,0 +1,260 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Decodes the groups shared by the TEMP (FM-35) upper-air soundings and the TEMP DROP (FM-37) dropsondes, which code
+ * the mandatory levels, significant levels, tropopause and max wind groups the same way.
+ * Details can be found in the WMO Manual on Codes (WMO-No. 306), Volume I.1.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+
+export interface IUsxxLevel {
+	surface: boolean;
+	pressure: number | null;
+	height: number | null;
+	temperature: number | null;
+	dewPointDepression: number | null;
+	windDirection: number | null;
+	windSpeed: number | null;
+}
+
+export interface IUsxxWind {
+	pressure: number | null;
+	direction: number;
+	speed: number;
+}
+
+export interface IUsxxMandatory {
+	levels: IUsxxLevel[];
+	tropopauses: IUsxxLevel[];
+	maxWinds: IUsxxWind[];
+	end: number;
+}
+
+export interface IUsxxSignificant {
+	levels: IUsxxLevel[];
+	winds: IUsxxWind[];
+	end: number;
+}
+
+export class UsxxCodes {
+
+	// The standard levels of Parts A (hPa) and C (above 100 hPa)
+	private static readonly standardLevels = [1000, 925, 850, 700, 500, 400, 300, 250, 200, 150, 100];
+	private static readonly standardLevelsAbove100 = [70, 50, 30, 20, 10];
+
+	public static isSection(group: string): boolean {
+		// The sections following the levels (i.e. 31313, 41414, 51515, 61616 or 62626)
+		return !!group.match(/^([3-6])([1-6])\1\2\1$/);
+	}
+
+	public static sections(groups: string[], start: number): Map<string, string[]> {
+		// Split the groups following the levels into each section (keyed by the section group)
+		const sections = new Map<string, string[]>();
+		let current: string[] | null = null;
+		for (const group of groups.slice(start)) {
+			if (UsxxCodes.isSection(group) && !sections.has(group))
+				sections.set(group, current = []);
+			else
+				current?.push(group);
+		}
+		return sections;
+	}
+
+	public static temperature(group: string): {temperature: number | null, depression: number | null} {
+		// TTTaDD - The temperature in tenths (an odd tenths digit is negative), then the dew point depression, which is
+		// in tenths up to 5.0, and whole degrees plus 50 from 56 (6 C)
+		const t = group.substring(0, 3);
+		const d = group.substring(3, 5);
+		const depression = d.match(/^\d{2}$/) ? parseInt(d) : null;
+		return {
+			temperature: t.match(/^\d{3}$/) ? parseInt(t) / 10 * (parseInt(t.charAt(2)) % 2 === 1 ? -1 : 1) : null,
+			depression: depression === null || (depression > 50 && depression < 56) ? null
+				: depression <= 50 ? depression / 10 : depression - 50
+		};
+	}
+
+	public static wind(group: string): {direction: number, speed: number} | null {
+		// dddff - The direction is to 5 degrees, with the hundreds of the speed added to the direction
+		if (!group.match(/^\d{5}$/))
+			return null;
+		const ddd = parseInt(group.substring(0, 3));
+		return {direction: ddd - ddd % 5, speed: parseInt(group.substring(3, 5)) + ddd % 5 * 100};
+	}
+
+	public static pressure(group: string, tenths: boolean = false): number | null {
+		// PPP - Whole hPa (dropping the leading 1 of 1000 hPa and above), or tenths of a hPa above 100 hPa
+		if (!group.match(/^\d{3}$/))
+			return null;
+		const value = parseInt(group);
+		return tenths ? value / 10 : value + (value < 100 ? 1000 : 0);
+	}
+
+	public static height(pressure: number, hhh: string): number | null {
+		if (!hhh.match(/^\d{3}$/))
+			return null;
+		const h = parseInt(hhh);
+
+		// 1000 hPa is meters (500 and above are below sea level), 925 / 850 / 700 hPa are the last 3 digits in meters,
+		// and 500 hPa and above are in decameters
+		switch (pressure) {
+			case 1000: return h >= 500 ? 500 - h : h;
+			case 925: return h;
+			case 850: return 1000 + h;
+			case 700: return (h < 500 ? 3000 : 2000) + h;
+			case 500:
+			case 400: return h * 10;
+			case 300:
+			case 250: return h * 10 + (h < 500 ? 10000 : 0);
+			case 200:
+			case 150:
+			case 100: return h * 10 + 10000;
+			case 70: return h * 10 + 10000;
+			case 10: return h * 10 + 30000;
+			default: return h * 10 + 20000;
+		}
+	}
+
+	public static mandatory(p: WmoParser, groups: string[], start: number, lastWind: string, above100: boolean,
+							code: WmoErrorCode): IUsxxMandatory {
+		// The winds are only included up to the last standard level with winds (i.e. 7 is 700 hPa, / is none)
+		const lastWindPressure = lastWind === '/' ? null
+			: above100 ? parseInt(lastWind) * 10
+			: lastWind === '0' ? 1000 : lastWind === '9' ? 925 : lastWind === '8' ? 850 : parseInt(lastWind) * 100;
+
+		const result: IUsxxMandatory = {levels: [], tropopauses: [], maxWinds: [], end: groups.length};
+		for (let i = start; i < groups.length; ) {
+			const group = groups[i] ?? '';
+			if (UsxxCodes.isSection(group)) {
+				result.end = i;
+				break;
+			}
+			++i;
+			const id = group.substring(0, 2);
+			const value = group.substring(2);
+
+			// 88999 (no tropopause) or 88PPP TTTaDD dddff
+			if (id === '88') {
+				if (value !== '999') {
+					const t = UsxxCodes.temperature(groups[i++] ?? '');
+					const wind = UsxxCodes.wind(groups[i++] ?? '');
+					result.tropopauses.push({surface: false, pressure: UsxxCodes.pressure(value, above100), height: null,
+						temperature: t.temperature, dewPointDepression: t.depression,
+						windDirection: wind?.direction ?? null, windSpeed: wind?.speed ?? null});
+				}
+				continue;
+			}
+
+			// 77999 (no max wind) or 77PPP (or 66PPP) dddff (4vbva)
+			if (id === '77' || id === '66') {
+				if (value !== '999') {
+					const wind = UsxxCodes.wind(groups[i++] ?? '');
+					if (wind)
+						result.maxWinds.push({pressure: UsxxCodes.pressure(value, above100), ...wind});
+					if (groups[i]?.match(/^4/))
+						++i;
+				}
+				continue;
+			}
+
+			// 99PPP TTTaDD dddff (surface) or PPhhh TTTaDD dddff (standard level)
+			const standard = above100 ? parseInt(id) : id === '00' ? 1000 : id === '92' ? 925 : parseInt(id) * 10;
+			const surface = id === '99' && !above100;
+			if (!surface && !(above100 ? UsxxCodes.standardLevelsAbove100 : UsxxCodes.standardLevels).includes(standard)) {
+				if (!p.isLenient())
+					p.error(`Invalid mandatory level "${group}"`, {code});
+				p.warn(`Invalid mandatory level "${group}"`, code);
+				continue;
+			}
+
+			const t = UsxxCodes.temperature(groups[i++] ?? '');
+			const hasWind = lastWindPressure !== null && (surface || standard >= lastWindPressure);
+			const wind = hasWind ? UsxxCodes.wind(groups[i++] ?? '') : null;
+			result.levels.push({
+				surface: surface,
+				pressure: surface ? UsxxCodes.pressure(value) : standard,
+				height: surface ? null : UsxxCodes.height(standard, value),
+				temperature: t.temperature,
+				dewPointDepression: t.depression,
+				windDirection: wind?.direction ?? null,
+				windSpeed: wind?.speed ?? null
+			});
+		}
+		return result;
+	}
+
+	public static significant(p: WmoParser, groups: string[], start: number, above100: boolean,
+							  code: WmoErrorCode): IUsxxSignificant {
+		// nnPPP TTTaDD ... (21212 nnPPP dddff ...), where nn counts 00, 11, 22 ... 99, 11 ...
+		const result: IUsxxSignificant = {levels: [], winds: [], end: groups.length};
+		let winds = false;
+		for (let i = start; i < groups.length; ) {
+			const group = groups[i] ?? '';
+			if (UsxxCodes.isSection(group)) {
+				result.end = i;
+				break;
+			}
+			++i;
+			if (group === '21212') {
+				winds = true;
+				continue;
+			}
+
+			const m = group.match(/^(\d)\1([\d\/]{3})$/);
+			if (!m) {
+				if (!p.isLenient())
+					p.error(`Invalid significant level "${group}"`, {code});
+				p.warn(`Invalid significant level "${group}"`, code);
+				continue;
+			}
+
+			const pressure = UsxxCodes.pressure(m[2] ?? '', above100);
+			const next = groups[i++] ?? '';
+			if (winds) {
+				const wind = UsxxCodes.wind(next);
+				if (wind)
+					result.winds.push({pressure, ...wind});
+			} else {
+				const t = UsxxCodes.temperature(next);
+				result.levels.push({
+					surface: m[1] === '0' && !above100,
+					pressure: pressure,
+					height: null,
+					temperature: t.temperature,
+					dewPointDepression: t.depression,
+					windDirection: null,
+					windSpeed: null
+				});
+			}
+		}
+		return result;
+	}
+
+	public static levelSchema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			surface: WmoSchema.boolean(),
+			pressure: num,
+			height: num,
+			temperature: num,
+			dewPointDepression: num,
+			windDirection: num,
+			windSpeed: num
+		});
+	}
+
+	public static windSchema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			pressure: WmoSchema.nullable(WmoSchema.number()),
+			direction: WmoSchema.number(),
+			speed: WmoSchema.number()
+		});
+	}
+}
\ No newline at end of file
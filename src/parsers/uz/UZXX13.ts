@@ -0,0 +1,450 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the raw Uzxx13 dropsonde (TEMP DROP) messages, made up of the XXAA (mandatory levels) and XXBB (significant
+ * levels) parts, each followed by the 61616 mission identifier and the 62626 remarks.
+ * Details can be found in the National Hurricane Operations Plan.
+ * A link to the current version can be found on the footer of the NHC Homepage:
+ * https://nhc.noaa.gov / https://www.nhc.noaa.gov/nhop.html
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IUrxx15Header} from "../ur/URXX15.js";
+import {IUsxxLevel, IUsxxWind, UsxxCodes} from "../us/UsxxCodes.js";
+
+// Decodes a location in hundredths of a degree (i.e. 2311N08803W)
+function toCoordinates(m: RegExpMatchArray, i: number): IWmoCoordinates {
+	return {
+		lat: parseInt(m[i] ?? 'NaN') / 100 * (m[i + 1] === 'S' ? -1 : 1),
+		lon: parseInt(m[i + 2] ?? 'NaN') / 100 * (m[i + 3] === 'W' ? -1 : 1)
+	};
+}
+
+export interface IUzxx13 extends IWmoMessage {
+	mandatory: IUzxx13Part | null;
+	significant: IUzxx13Part | null;
+	mission: IUzxx13Mission | null;
+	remarks: IUzxx13Remarks | null;
+}
+
+export class UZXX13 extends WmoMessage {
+
+	public readonly mandatory: Uzxx13Part | null = null;
+	public readonly significant: Uzxx13Part | null = null;
+	public readonly mission: Uzxx13Mission | null = null;
+	public readonly remarks: Uzxx13Remarks | null = null;
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Helper parser variable
+		const p = wmoFile.parser;
+
+		// Parse each part (which ends with a =), until the end of the message
+		for (let next = p.peek(); next !== undefined && next !== ';'; next = p.peek()) {
+			if (!next.match(/^XX(AA|BB)\s/)) {
+				// Skip any other parts (i.e. the XXCC and XXDD parts above 100 hPa)
+				p.extractUntil(/=\s*$/);
+				p.extract(/=\s*$/);
+				p.skipEmpty();
+				continue;
+			}
+
+			const part = p.recover(() => new Uzxx13Part(p, wmoFile.header.datetime), /^XX[A-D][A-D]\s|^;/);
+			if (!part)
+				continue;
+
+			if (part.part === 'AA')
+				this.mandatory ??= part;
+			else
+				this.significant ??= part;
+
+			// The mission identifier and remarks are repeated in each part, so only the first is kept
+			this.mission ??= part.mission;
+			this.remarks ??= part.remarks;
+		}
+
+		if (!this.mandatory && !this.significant)
+			p.error('Expected a XXAA or XXBB part', {code: WmoErrorCode.missingTempDropPart});
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			mandatory: WmoSchema.nullable(Uzxx13Part.schema()),
+			significant: WmoSchema.nullable(Uzxx13Part.schema()),
+			mission: WmoSchema.nullable(Uzxx13Mission.schema()),
+			remarks: WmoSchema.nullable(Uzxx13Remarks.schema())
+		});
+	}
+
+	public static fromJSON(json: IUzxx13, wmoFile: WmoFile): UZXX13 {
+		return Object.assign(Object.create(UZXX13.prototype) as UZXX13, {
+			wmoFile: wmoFile,
+			mandatory: json.mandatory ? Uzxx13Part.fromJSON(json.mandatory) : null,
+			significant: json.significant ? Uzxx13Part.fromJSON(json.significant) : null,
+			mission: json.mission ? Uzxx13Mission.fromJSON(json.mission) : null,
+			remarks: json.remarks ? Uzxx13Remarks.fromJSON(json.remarks) : null
+		});
+	}
+
+	public override toJSON(): IUzxx13 {
+		return {
+			mandatory: this.mandatory?.toJSON() ?? null,
+			significant: this.significant?.toJSON() ?? null,
+			mission: this.mission?.toJSON() ?? null,
+			remarks: this.remarks?.toJSON() ?? null
+		};
+	}
+}
+
+// The levels and winds are coded the same as the TEMP upper-air soundings
+export type IUzxx13Level = IUsxxLevel;
+export type IUzxx13Wind = IUsxxWind;
+
+export interface IUzxx13Part {
+	part: string;
+	time: IWmoDate | null;
+	knots: boolean;
+	launch: IWmoCoordinates | null;
+	levels: IUzxx13Level[];
+	winds: IUzxx13Wind[];
+	tropopause: IUzxx13Level | null;
+	maxWind: IUzxx13Wind | null;
+	span?: IWmoSourceSpan;
+}
+
+export class Uzxx13Part implements IWmoObject {
+
+	public readonly part: string;
+	public readonly time: WmoDate | null = null;
+	public readonly knots: boolean;
+	public readonly launch: IWmoCoordinates | null = null;
+	public readonly levels: IUzxx13Level[];
+	public readonly winds: IUzxx13Wind[] = [];
+	public readonly tropopause: IUzxx13Level | null = null;
+	public readonly maxWind: IUzxx13Wind | null = null;
+	public readonly mission: Uzxx13Mission | null = null;
+	public readonly remarks: Uzxx13Remarks | null = null;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, reference: WmoDate) {
+		// Read the groups of the part, up to (and including) the line ending with a =
+		// XXAA 58197 99231 70881 08111 99922 28020 20140 00/// ///// /////
+		// ...
+		// 191402 =
+		const start = p.mark();
+		let text = '';
+		for (let line = p.extract()?.[0]; line !== undefined; line = p.extract()?.[0]) {
+			text += ` ${line}`;
+			if (line.match(/=\s*$/))
+				break;
+		}
+		const groups = text.replace(/=\s*$/, '').trim().split(/\s+/);
+
+		// XXAA 58197 99231 70881 08111
+		// 11   2233a   444 5666 77777
+		const header = groups.slice(0, 5).join(' ')
+			.match(/^XX(AA|BB)\s+(\d{2})(\d{2})([\d\/])\s+99(\d{3})\s+([1357])(\d{4})\s+\S+$/);
+		if (!header)
+			p.error('Invalid TEMP DROP part header', {code: WmoErrorCode.badTempDropGroup});
+		this.part = header[1] ?? '';
+
+		// The day has 50 added when the winds are in knots
+		const day = parseInt(header[2] ?? 'NaN');
+		this.knots = day > 50;
+
+		// Parse the levels, followed by the 31313 (launch time), 61616 (mission identifier) and 62626 (remarks) sections
+		let end: number;
+		if (this.part === 'AA') {
+			const mandatory = UsxxCodes.mandatory(p, groups, 5, header[4] ?? '/', false, WmoErrorCode.badTempDropGroup);
+			this.levels = mandatory.levels;
+			this.tropopause = mandatory.tropopauses[0] ?? null;
+			this.maxWind = mandatory.maxWinds[0] ?? null;
+			end = mandatory.end;
+		} else {
+			const significant = UsxxCodes.significant(p, groups, 5, false, WmoErrorCode.badTempDropGroup);
+			this.levels = significant.levels;
+			this.winds = significant.winds;
+			end = significant.end;
+		}
+		const sections = UsxxCodes.sections(groups, end);
+
+		// 31313 09608 81910 - The launch hour and minute
+		const launch = sections.get('31313')?.[1]?.match(/^8\d{4}$/)?.[0];
+		this.time = WmoDateResolver.resolve({
+			day: day > 50 ? day - 50 : day,
+			hour: parseInt(launch?.substring(1, 3) ?? header[3] ?? 'NaN'),
+			minute: launch ? parseInt(launch.substring(3, 5)) : 0
+		}, reference, {bias: 'backward'});
+
+		// The launch position in tenths of a degree, where the quadrant is 1 (NE), 3 (SE), 5 (SW) or 7 (NW)
+		const quadrant = parseInt(header[6] ?? 'NaN');
+		this.launch = {
+			lat: parseInt(header[5] ?? 'NaN') / 10 * (quadrant === 3 || quadrant === 5 ? -1 : 1),
+			lon: parseInt(header[7] ?? 'NaN') / 10 * (quadrant === 5 || quadrant === 7 ? -1 : 1)
+		};
+
+		// 61616 AF309 2314A MILTON OB 10
+		const mission = sections.get('61616');
+		if (mission)
+			this.mission = p.recover(() => new Uzxx13Mission(p, mission.join(' ')));
+
+		// 62626 CENTER SPL 2311N08803W 1914 MBL WND 21108 ...
+		const remarks = sections.get('62626');
+		if (remarks)
+			this.remarks = new Uzxx13Remarks(remarks.join(' '), this.time);
+
+		// Record where the part was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			part: WmoSchema.string(),
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			knots: WmoSchema.boolean(),
+			launch: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			levels: WmoSchema.array(UsxxCodes.levelSchema()),
+			winds: WmoSchema.array(UsxxCodes.windSchema()),
+			tropopause: WmoSchema.nullable(UsxxCodes.levelSchema()),
+			maxWind: WmoSchema.nullable(UsxxCodes.windSchema()),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IUzxx13Part): Uzxx13Part {
+		return Object.assign(Object.create(Uzxx13Part.prototype) as Uzxx13Part, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			mission: null,
+			remarks: null,
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IUzxx13Part {
+		return {
+			part: this.part,
+			time: this.time?.toJSON() ?? null,
+			knots: this.knots,
+			launch: this.launch,
+			levels: this.levels,
+			winds: this.winds,
+			tropopause: this.tropopause,
+			maxWind: this.maxWind,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
+
+// The mission identifier has the same fields as the HDOB header (without the date)
+export type IUzxx13Mission = Omit<IUrxx15Header, 'date'>;
+
+export class Uzxx13Mission implements IWmoObject {
+
+	public readonly agency: string | null = null;
+	public readonly aircraft: string | null = null;
+	public readonly missionNo: string | null = null;
+	public readonly stormNo: string | null = null;
+	public readonly location: string | null = null;
+	public readonly stormName: string | null = null;
+	public readonly obsNo: string | null = null;
+
+	public constructor(p: WmoParser, text: string) {
+		// AF309 2314A MILTON OB 10
+		// 11222 33445 666666    77
+		const m = text.match(/^([A-Z]+)(\d+)\s+(W[A-Z]|\d{2})(\d{2}|[A-Z]{2})([AECW])\s+(\w+?)\s+OB\s+(\d+)/);
+		if (!m)
+			p.error(`Invalid TEMP DROP mission identifier "${text}"`, {code: WmoErrorCode.badTempDropGroup});
+
+		this.agency = m[1] ?? null;
+		this.aircraft = m[2] ?? null;
+		this.missionNo = m[3] ?? null;
+		this.stormNo = m[4] ?? null;
+		this.location = m[5] ?? null;
+		this.stormName = m[6] ?? null;
+		this.obsNo = m[7] ?? null;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			agency: text,
+			aircraft: text,
+			missionNo: text,
+			stormNo: text,
+			location: text,
+			stormName: text,
+			obsNo: text
+		});
+	}
+
+	public static fromJSON(json: IUzxx13Mission): Uzxx13Mission {
+		return Object.assign(Object.create(Uzxx13Mission.prototype) as Uzxx13Mission, json);
+	}
+
+	public toJSON(): IUzxx13Mission {
+		return {
+			agency: this.agency,
+			aircraft: this.aircraft,
+			missionNo: this.missionNo,
+			stormNo: this.stormNo,
+			location: this.location,
+			stormName: this.stormName,
+			obsNo: this.obsNo
+		};
+	}
+}
+
+export interface IUzxx13Point {
+	location: IWmoCoordinates;
+	time: IWmoDate | null;
+}
+
+interface IUzxx13PointDate {
+	location: IWmoCoordinates;
+	time: WmoDate | null;
+}
+
+export interface IUzxx13LayerWind {
+	direction: number;
+	speed: number;
+	bottom: number | null;
+	top: number | null;
+}
+
+export interface IUzxx13Remarks {
+	text: string;
+	center: boolean;
+	eyewall: boolean;
+	eyewallAzimuth: number | null;
+	splash: IUzxx13Point | null;
+	release: IUzxx13Point | null;
+	meanBoundaryLayerWind: IUzxx13LayerWind | null;
+	lowest150mWind: IUzxx13LayerWind | null;
+	deepLayerMeanWind: IUzxx13LayerWind | null;
+	lastWindHeight: number | null;
+}
+
+export class Uzxx13Remarks implements IWmoObject {
+
+	public readonly text: string;
+	public readonly center: boolean;
+	public readonly eyewall: boolean;
+	public readonly eyewallAzimuth: number | null = null;
+	public readonly splash: IUzxx13PointDate | null = null;
+	public readonly release: IUzxx13PointDate | null = null;
+	public readonly meanBoundaryLayerWind: IUzxx13LayerWind | null = null;
+	public readonly lowest150mWind: IUzxx13LayerWind | null = null;
+	public readonly deepLayerMeanWind: IUzxx13LayerWind | null = null;
+	public readonly lastWindHeight: number | null = null;
+
+	public constructor(text: string, launchTime: WmoDate | null) {
+		this.text = text;
+
+		// CENTER, or EYEWALL 045 (the azimuth from the center)
+		this.center = !!text.match(/\bCENTER\b/);
+		const eyewall = text.match(/\bEYEWALL(?:\s+(\d{3})\b)?/);
+		this.eyewall = !!eyewall;
+		this.eyewallAzimuth = eyewall?.[1] ? parseInt(eyewall[1]) : null;
+
+		// SPL 2311N08803W 1914 - The splash location and time (hhmm)
+		const time = (hhmmss: string | undefined): WmoDate | null => !hhmmss || !launchTime ? null
+			: WmoDateResolver.resolve({
+				hour: parseInt(hhmmss.substring(0, 2)),
+				minute: parseInt(hhmmss.substring(2, 4)),
+				second: hhmmss.length > 4 ? parseInt(hhmmss.substring(4, 6)) : null
+			}, launchTime);
+		const splash = text.match(/\bSPL\s+(\d{4})([NS])(\d{5})([EW])(?:\s+(\d{4})\b)?/);
+		if (splash)
+			this.splash = {location: toCoordinates(splash, 1), time: time(splash[5])};
+
+		// REL 2310N08803W 191056 - The release location and time (hhmmss)
+		const release = text.match(/\bREL\s+(\d{4})([NS])(\d{5})([EW])(?:\s+(\d{6})\b)?/);
+		if (release)
+			this.release = {location: toCoordinates(release, 1), time: time(release[5])};
+
+		// MBL WND 21108 - The mean wind in the lowest 500 m
+		const mbl = text.match(/\bMBL\s+WND\s+(\d{5})\b/);
+		const mblWind = UsxxCodes.wind(mbl?.[1] ?? '');
+		if (mblWind)
+			this.meanBoundaryLayerWind = {...mblWind, bottom: null, top: null};
+
+		// WL150 21114 083 - The mean wind in the lowest 150 m (and the height of the middle of the layer)
+		const wl150 = text.match(/\bWL150\s+(\d{5})(?:\s+(\d{3})\b)?/);
+		const wl150Wind = UsxxCodes.wind(wl150?.[1] ?? '');
+		if (wl150Wind)
+			this.lowest150mWind = {...wl150Wind, bottom: null, top: wl150?.[2] ? parseInt(wl150[2]) : null};
+
+		// DLM WND 24014 922700 - The deep-layer mean wind between the two pressure levels
+		const dlm = text.match(/\bDLM\s+WND\s+(\d{5})(?:\s+(\d{3})(\d{3})\b)?/);
+		const dlmWind = UsxxCodes.wind(dlm?.[1] ?? '');
+		if (dlmWind)
+			this.deepLayerMeanWind = {...dlmWind, bottom: UsxxCodes.pressure(dlm?.[2] ?? ''), top: UsxxCodes.pressure(dlm?.[3] ?? '')};
+
+		// LST WND 013 - The height of the last reported wind
+		const last = text.match(/\bLST\s+WND\s+(\d{3})\b/);
+		this.lastWindHeight = last?.[1] ? parseInt(last[1]) : null;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		const point = WmoSchema.nullable(WmoSchema.object({
+			location: WmoSchema.ref('WmoCoordinates'),
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+		}));
+		const wind = WmoSchema.nullable(WmoSchema.object({
+			direction: WmoSchema.number(),
+			speed: WmoSchema.number(),
+			bottom: num,
+			top: num
+		}));
+		return WmoSchema.object({
+			text: WmoSchema.string(),
+			center: WmoSchema.boolean(),
+			eyewall: WmoSchema.boolean(),
+			eyewallAzimuth: num,
+			splash: point,
+			release: point,
+			meanBoundaryLayerWind: wind,
+			lowest150mWind: wind,
+			deepLayerMeanWind: wind,
+			lastWindHeight: num
+		});
+	}
+
+	public static fromJSON(json: IUzxx13Remarks): Uzxx13Remarks {
+		return Object.assign(Object.create(Uzxx13Remarks.prototype) as Uzxx13Remarks, {
+			...json,
+			splash: json.splash ? {location: json.splash.location, time: WmoDate.fromJSON(json.splash.time)} : null,
+			release: json.release ? {location: json.release.location, time: WmoDate.fromJSON(json.release.time)} : null
+		});
+	}
+
+	public toJSON(): IUzxx13Remarks {
+		return {
+			text: this.text,
+			center: this.center,
+			eyewall: this.eyewall,
+			eyewallAzimuth: this.eyewallAzimuth,
+			splash: this.splash ? {location: this.splash.location, time: this.splash.time?.toJSON() ?? null} : null,
+			release: this.release ? {location: this.release.location, time: this.release.time?.toJSON() ?? null} : null,
+			meanBoundaryLayerWind: this.meanBoundaryLayerWind,
+			lowest150mWind: this.lowest150mWind,
+			deepLayerMeanWind: this.deepLayerMeanWind,
+			lastWindHeight: this.lastWindHeight
+		};
+	}
+}
\ No newline at end of file
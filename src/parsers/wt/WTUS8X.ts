@@ -0,0 +1,182 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Hurricane Local Statement (HLS), issued by each WFO (WTUS81-86) for the zones affected by a tropical
+ * cyclone. The statement is split into its sections (i.e. NEW INFORMATION and SITUATION OVERVIEW), where each bullet
+ * (i.e. * STORM INFORMATION:) has its list of items.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject} from "../../WmoInterfaces.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IWmoUgc, WmoUgc} from "../../WmoUgc.js";
+import {IWtxxHeader, WtxxHeader} from "./WtxxHeader.js";
+
+// The end of the statement (or the end of the section text)
+const statementEnd = /^(\$\$|&&)\s*$/;
+
+export interface IWtus8x extends IWmoMessage {
+	ugc: IWmoUgc;
+	header: IWtxxHeader;
+	covers: string | null;
+	headline: string | null;
+	sections: IWtus8xSection[];
+}
+
+export class WTUS8X extends WmoMessage {
+
+	public readonly ugc: WmoUgc;
+	public readonly header: WtxxHeader;
+	public readonly covers: string | null;
+	public readonly headline: string | null;
+	public readonly sections: Wtus8xSection[] = [];
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// The zones covered by the statement
+		// FLZ063-066>075-168-172>174-081930-
+		const p = wmoFile.parser;
+		this.ugc = new WmoUgc(p, wmoFile.header.datetime);
+
+		// Parse the storm heading
+		// Hurricane Milton Local Statement Advisory Number 17
+		// National Weather Service Miami FL  AL142024
+		// 1100 AM EDT Tue Oct 8 2024
+		this.header = new WtxxHeader(p, 'Local Statement Advisory');
+
+		// This product covers South Florida
+		this.covers = p.extract(/^This product covers\s+(.*)$/i)?.[1] ?? null;
+
+		// **HURRICANE MILTON EXPECTED TO MAKE LANDFALL...** (which may wrap over multiple lines)
+		this.headline = null;
+		if (p.peek()?.trim().startsWith('**')) {
+			const headline = p.extractUntil(/^$/, ' ', true, false);
+			this.headline = headline.replace(/^\*\*\s*|\s*\*\*$/g, '');
+			p.skipEmpty();
+		}
+
+		// Each section has its title underlined with dashes, until the end of the statement
+		// NEW INFORMATION
+		// ---------------
+		for (let next = p.peek(); next !== undefined && !next.match(/^\$\$/); next = p.peek()) {
+			if (next.match(statementEnd) || !p.peek(1)?.trim().match(/^-+$/)) {
+				p.extract(/^.*$/, true, false);
+				p.skipEmpty();
+				continue;
+			}
+			this.sections.push(new Wtus8xSection(p));
+		}
+		p.extract(/^\$\$/);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			ugc: WmoUgc.schema(),
+			header: WtxxHeader.schema(),
+			covers: WmoSchema.nullable(WmoSchema.string()),
+			headline: WmoSchema.nullable(WmoSchema.string()),
+			sections: WmoSchema.array(Wtus8xSection.schema())
+		});
+	}
+
+	public static fromJSON(json: IWtus8x, wmoFile: WmoFile): WTUS8X {
+		return Object.assign(Object.create(WTUS8X.prototype) as WTUS8X, {
+			wmoFile: wmoFile,
+			...json,
+			ugc: WmoUgc.fromJSON(json.ugc),
+			header: WtxxHeader.fromJSON(json.header),
+			sections: json.sections.map(s => Wtus8xSection.fromJSON(s))
+		});
+	}
+
+	public override toJSON(): IWtus8x {
+		return {
+			ugc: this.ugc.toJSON(),
+			header: this.header.toJSON(),
+			covers: this.covers,
+			headline: this.headline,
+			sections: this.sections.map(s => s.toJSON())
+		};
+	}
+}
+
+export interface IWtus8xBullet {
+	title: string;
+	items: string[];
+}
+
+export interface IWtus8xSection {
+	title: string;
+	paragraphs: string[];
+	bullets: IWtus8xBullet[];
+}
+
+export class Wtus8xSection implements IWmoObject {
+
+	public readonly title: string;
+	public readonly paragraphs: string[] = [];
+	public readonly bullets: IWtus8xBullet[] = [];
+
+	public constructor(p: WmoParser) {
+		// SITUATION OVERVIEW
+		// ------------------
+		this.title = p.extract()?.[0] ?? '';
+		p.extract(/^-+$/);
+
+		// Read until the next section (a title underlined with dashes), or the end of the statement
+		for (let next = p.peek(); next !== undefined && !next.match(statementEnd) && !p.peek(1)?.trim().match(/^-+$/); next = p.peek()) {
+			// * STORM INFORMATION:
+			//     - About 500 miles southwest of Fort Myers FL
+			const bullet = p.extract(/^\*\s*(.*?):?$/);
+			if (bullet) {
+				this.bullets.push({title: bullet[1] ?? '', items: []});
+				continue;
+			}
+
+			// - A Hurricane Warning is in effect for Glades (an item of the last bullet, which may wrap)
+			const last = this.bullets[this.bullets.length - 1];
+			const item = last ? p.extract(/^-\s+(.*)$/, true, false) : undefined;
+			if (last && item) {
+				const wrapped = p.extractUntil(/^\s*(-\s|\*)|^$/, ' ', true, false);
+				last.items.push(wrapped ? `${item[1]} ${wrapped}` : item[1] ?? '');
+				p.skipEmpty();
+				continue;
+			}
+
+			// Otherwise, a paragraph of the section
+			this.paragraphs.push(p.extractUntil(/^$|^(\$\$|&&)/, ' ', true, false));
+			p.skipEmpty();
+		}
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			title: WmoSchema.string(),
+			paragraphs: WmoSchema.array(WmoSchema.string()),
+			bullets: WmoSchema.array(WmoSchema.object({
+				title: WmoSchema.string(),
+				items: WmoSchema.array(WmoSchema.string())
+			}))
+		});
+	}
+
+	public static fromJSON(json: IWtus8xSection): Wtus8xSection {
+		return Object.assign(Object.create(Wtus8xSection.prototype) as Wtus8xSection, json);
+	}
+
+	public toJSON(): IWtus8xSection {
+		return {
+			title: this.title,
+			paragraphs: this.paragraphs,
+			bullets: this.bullets
+		};
+	}
+}
@@ -0,0 +1,390 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Tropical Cyclone Forecast/Advisory (TCM), issued by the NHC (WTNT21-25 / WTPZ21-25) and CPHC
+ * (WTPA21-25). All speeds are in knots and distances in nautical miles.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoDateBias, WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IWtxxHeader, WtxxHeader} from "./WtxxHeader.js";
+
+// Positions (22.8N  88.8W), times (08/1500Z) and radii (64 KT....... 30NE  25SE  20SW  25NW.)
+const position = '(\\d+\\.?\\d*)([NS])\\s+(\\d+\\.?\\d*)([EW])';
+const time = '(\\d{2})\\/(\\d{2})(\\d{2})Z';
+const quadrants = /\.+\s*(\d+)NE\s+(\d+)SE\s+(\d+)SW\s+(\d+)NW/;
+const radiiPattern = new RegExp(`^(\\d+)\\s+KT${quadrants.source}`);
+const seasPattern = new RegExp(`^(\\d+)\\s+FT\\s+SEAS${quadrants.source}`);
+
+function toCoordinates(m: RegExpMatchArray, i: number): IWmoCoordinates {
+	return {
+		lat: parseFloat(m[i] ?? 'NaN') * (m[i + 1] === 'S' ? -1 : 1),
+		lon: parseFloat(m[i + 2] ?? 'NaN') * (m[i + 3] === 'W' ? -1 : 1)
+	};
+}
+
+function toDate(m: RegExpMatchArray, i: number, reference: WmoDate, bias: WmoDateBias = 'nearest'): WmoDate {
+	return WmoDateResolver.resolve({
+		day: parseInt(m[i] ?? 'NaN'),
+		hour: parseInt(m[i + 1] ?? 'NaN'),
+		minute: parseInt(m[i + 2] ?? 'NaN')
+	}, reference, {bias});
+}
+
+export interface IWtxx2xQuadrants {
+	ne: number;
+	se: number;
+	sw: number;
+	nw: number;
+}
+
+export interface IWtxx2xRadii extends IWtxx2xQuadrants {
+	threshold: number;
+}
+
+function toRadii(m: RegExpMatchArray): IWtxx2xRadii {
+	return {
+		threshold: parseInt(m[1] ?? 'NaN'),
+		ne: parseInt(m[2] ?? 'NaN'),
+		se: parseInt(m[3] ?? 'NaN'),
+		sw: parseInt(m[4] ?? 'NaN'),
+		nw: parseInt(m[5] ?? 'NaN')
+	};
+}
+
+export interface IWtxx2xCenter {
+	time: IWmoDate;
+	location: IWmoCoordinates;
+}
+
+export interface IWtxx2xMovement {
+	direction: string | null;
+	degrees: number | null;
+	speed: number | null;
+	text: string;
+}
+
+export interface IWtxx2x extends IWmoMessage {
+	header: IWtxxHeader;
+	center: IWtxx2xCenter;
+	accuracy: number | null;
+	movement: IWtxx2xMovement | null;
+	pressure: number | null;
+	eyeDiameter: number | null;
+	maxWinds: number | null;
+	gusts: number | null;
+	windRadii: IWtxx2xRadii[];
+	seasRadii: IWtxx2xRadii | null;
+	previous: IWtxx2xCenter | null;
+	forecasts: IWtxx2xForecast[];
+	nextAdvisory: IWmoDate | null;
+	forecaster: string | null;
+}
+
+interface IWtxx2xCenterDate {
+	time: WmoDate;
+	location: IWmoCoordinates;
+}
+
+export class WTXX2X extends WmoMessage {
+
+	public readonly header: WtxxHeader;
+	public readonly center: IWtxx2xCenterDate;
+	public readonly accuracy: number | null = null;
+	public readonly movement: IWtxx2xMovement | null = null;
+	public readonly pressure: number | null = null;
+	public readonly eyeDiameter: number | null = null;
+	public readonly maxWinds: number | null = null;
+	public readonly gusts: number | null = null;
+	public readonly windRadii: IWtxx2xRadii[] = [];
+	public readonly seasRadii: IWtxx2xRadii | null = null;
+	public readonly previous: IWtxx2xCenterDate | null = null;
+	public readonly forecasts: Wtxx2xForecast[] = [];
+	public readonly nextAdvisory: WmoDate | null = null;
+	public readonly forecaster: string | null = null;
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Parse the storm heading
+		// HURRICANE MILTON FORECAST/ADVISORY NUMBER  17
+		// NWS NATIONAL HURRICANE CENTER MIAMI FL       AL142024
+		// 1500 UTC TUE OCT 08 2024
+		const p = wmoFile.parser;
+		this.header = new WtxxHeader(p, 'Forecast/Advisory');
+		p.skipEmpty();
+
+		// Skip the watches and warnings (see the public advisory), up to the center location
+		// HURRICANE CENTER LOCATED NEAR 22.8N  88.8W AT 08/1500Z
+		const centerPattern = new RegExp(`CENTER LOCATED NEAR\\s+${position}\\s+AT\\s+${time}`);
+		p.extractUntil(centerPattern);
+		const center = p.assert('Expected center location line', centerPattern, WmoErrorCode.missingTcmCenter);
+		this.center = {
+			time: toDate(center, 5, wmoFile.header.datetime),
+			location: toCoordinates(center, 1)
+		};
+
+		// The forecast hours are from the synoptic time (i.e. the 1500Z advisory forecasts are from 1200Z)
+		const synoptic = new Date(this.center.time.date.getTime());
+		synoptic.setUTCHours(Math.floor(synoptic.getUTCHours() / 6) * 6, 0, 0, 0);
+
+		// Each of the remaining lines is checked for the details, until the end of the product
+		for (let next = p.peek(); next !== undefined && !next.match(/^\$\$/); next = p.peek()) {
+
+			// FORECAST VALID 09/0000Z 23.6N  87.5W
+			// OUTLOOK VALID 13/1200Z...DISSIPATED
+			if (next.match(/^\s*(FORECAST|OUTLOOK)\s+VALID/)) {
+				const forecast = p.recover(() => new Wtxx2xForecast(p, this.center.time, synoptic), /^\s*(FORECAST|OUTLOOK)\s+VALID|\$\$/);
+				if (forecast)
+					this.forecasts.push(forecast);
+				continue;
+			}
+
+			const line = p.extract()?.[0] ?? '';
+
+			// POSITION ACCURATE WITHIN  10 NM
+			const accuracy = line.match(/^POSITION ACCURATE WITHIN\s+(\d+)\s+NM/);
+			if (accuracy)
+				this.accuracy = parseInt(accuracy[1] ?? 'NaN');
+
+			// PRESENT MOVEMENT TOWARD THE EAST-NORTHEAST OR  70 DEGREES AT   9 KT (or STATIONARY)
+			if (line.match(/^PRESENT MOVEMENT/)) {
+				const movement = line.match(/TOWARD THE\s+(.*?)\s+OR\s+(\d+)\s+DEGREES\s+AT\s+(\d+)\s+KT/);
+				this.movement = {
+					direction: movement?.[1] ?? null,
+					degrees: movement?.[2] ? parseInt(movement[2]) : null,
+					speed: movement?.[3] ? parseInt(movement[3]) : null,
+					text: line.replace(/^PRESENT MOVEMENT\s*\.*\s*/, '')
+				};
+			}
+
+			// ESTIMATED MINIMUM CENTRAL PRESSURE  919 MB
+			const pressure = line.match(/MINIMUM CENTRAL PRESSURE\s+(\d+)\s+MB/);
+			if (pressure)
+				this.pressure = parseInt(pressure[1] ?? 'NaN');
+
+			// EYE DIAMETER  10 NM
+			const eye = line.match(/^EYE DIAMETER\s+(\d+)\s+NM/);
+			if (eye)
+				this.eyeDiameter = parseInt(eye[1] ?? 'NaN');
+
+			// MAX SUSTAINED WINDS 140 KT WITH GUSTS TO 170 KT.
+			const winds = line.match(/^MAX SUSTAINED WINDS\s+(\d+)\s+KT\s+WITH GUSTS TO\s+(\d+)\s+KT/);
+			if (winds) {
+				this.maxWinds = parseInt(winds[1] ?? 'NaN');
+				this.gusts = parseInt(winds[2] ?? 'NaN');
+			}
+
+			// 64 KT....... 30NE  25SE  20SW  25NW.
+			const radii = line.match(radiiPattern);
+			if (radii)
+				this.windRadii.push(toRadii(radii));
+
+			// 12 FT SEAS..150NE 180SE 150SW 120NW.
+			const seas = line.match(seasPattern);
+			if (seas)
+				this.seasRadii = toRadii(seas);
+
+			// AT 08/1200Z CENTER WAS LOCATED NEAR 22.6N  89.2W
+			const previous = line.match(new RegExp(`^AT\\s+${time}\\s+CENTER WAS LOCATED NEAR\\s+${position}`));
+			if (previous) {
+				this.previous = {
+					time: toDate(previous, 1, this.center.time, 'backward'),
+					location: toCoordinates(previous, 4)
+				};
+			}
+
+			// NEXT ADVISORY AT 08/2100Z
+			const nextAdvisory = line.match(new RegExp(`^NEXT ADVISORY AT\\s+${time}`));
+			if (nextAdvisory)
+				this.nextAdvisory = toDate(nextAdvisory, 1, this.center.time, 'forward');
+		}
+
+		// The end of the product is followed by the forecaster
+		p.extract(/^\$\$/);
+		this.forecaster = p.extract(/^FORECASTER\s+(.*?)$/i)?.[1] ?? null;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		const center = WmoSchema.object({
+			time: WmoSchema.ref('WmoDate'),
+			location: WmoSchema.ref('WmoCoordinates')
+		});
+		return WmoSchema.object({
+			header: WtxxHeader.schema(),
+			center: center,
+			accuracy: num,
+			movement: WmoSchema.nullable(WmoSchema.object({
+				direction: WmoSchema.nullable(WmoSchema.string()),
+				degrees: num,
+				speed: num,
+				text: WmoSchema.string()
+			})),
+			pressure: num,
+			eyeDiameter: num,
+			maxWinds: num,
+			gusts: num,
+			windRadii: WmoSchema.array(Wtxx2xForecast.radiiSchema()),
+			seasRadii: WmoSchema.nullable(Wtxx2xForecast.radiiSchema()),
+			previous: WmoSchema.nullable(center),
+			forecasts: WmoSchema.array(Wtxx2xForecast.schema()),
+			nextAdvisory: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			forecaster: WmoSchema.nullable(WmoSchema.string())
+		});
+	}
+
+	public static fromJSON(json: IWtxx2x, wmoFile: WmoFile): WTXX2X {
+		return Object.assign(Object.create(WTXX2X.prototype) as WTXX2X, {
+			wmoFile: wmoFile,
+			...json,
+			header: WtxxHeader.fromJSON(json.header),
+			center: {time: WmoDate.fromJSON(json.center.time), location: json.center.location},
+			previous: json.previous ? {time: WmoDate.fromJSON(json.previous.time), location: json.previous.location} : null,
+			forecasts: json.forecasts.map(f => Wtxx2xForecast.fromJSON(f)),
+			nextAdvisory: WmoDate.fromJSON(json.nextAdvisory)
+		});
+	}
+
+	public override toJSON(): IWtxx2x {
+		return {
+			header: this.header.toJSON(),
+			center: {time: this.center.time.toJSON(), location: this.center.location},
+			accuracy: this.accuracy,
+			movement: this.movement,
+			pressure: this.pressure,
+			eyeDiameter: this.eyeDiameter,
+			maxWinds: this.maxWinds,
+			gusts: this.gusts,
+			windRadii: this.windRadii,
+			seasRadii: this.seasRadii,
+			previous: this.previous ? {time: this.previous.time.toJSON(), location: this.previous.location} : null,
+			forecasts: this.forecasts.map(f => f.toJSON()),
+			nextAdvisory: this.nextAdvisory?.toJSON() ?? null,
+			forecaster: this.forecaster
+		};
+	}
+}
+
+export interface IWtxx2xForecast {
+	hour: number;
+	time: IWmoDate;
+	outlook: boolean;
+	location: IWmoCoordinates | null;
+	maxWinds: number | null;
+	gusts: number | null;
+	windRadii: IWtxx2xRadii[];
+	status: string | null;
+	postTropical: boolean;
+	dissipated: boolean;
+	span?: IWmoSourceSpan;
+}
+
+export class Wtxx2xForecast implements IWmoObject {
+
+	public readonly hour: number;
+	public readonly time: WmoDate;
+	public readonly outlook: boolean;
+	public readonly location: IWmoCoordinates | null = null;
+	public readonly maxWinds: number | null = null;
+	public readonly gusts: number | null = null;
+	public readonly windRadii: IWtxx2xRadii[] = [];
+	public readonly status: string | null = null;
+	public readonly postTropical: boolean;
+	public readonly dissipated: boolean;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, centerTime: WmoDate, synoptic: Date) {
+		// FORECAST VALID 10/1200Z 28.4N  80.3W...INLAND
+		// 11111111       22 3344  5555 6 77777 8 999999
+		const start = p.mark();
+		const valid = p.assert('Expected forecast valid line',
+			new RegExp(`^(FORECAST|OUTLOOK)\\s+VALID\\s+${time}(?:\\s+${position})?(?:\\.+(.*?))?$`));
+		this.outlook = valid[1] === 'OUTLOOK';
+		this.time = toDate(valid, 2, centerTime, 'forward');
+		this.hour = Math.round((this.time.date.getTime() - synoptic.getTime()) / 3600000);
+		if (valid[5])
+			this.location = toCoordinates(valid, 5);
+
+		// The status (i.e. INLAND, POST-TROP/EXTRATROP or DISSIPATED) follows the position
+		this.status = valid[9] || null;
+		this.postTropical = !!this.status?.match(/POST-TROP|EXTRATROP|REMNANT/);
+		this.dissipated = !!this.status?.match(/DISSIPATED/);
+
+		// MAX WIND 135 KT...GUSTS 165 KT.
+		const winds = p.extract(/^MAX WIND\s+(\d+)\s+KT\.+GUSTS\s+(\d+)\s+KT/);
+		if (winds) {
+			this.maxWinds = parseInt(winds[1] ?? 'NaN');
+			this.gusts = parseInt(winds[2] ?? 'NaN');
+		}
+
+		// 64 KT... 30NE  30SE  25SW  25NW.
+		for (let radii = p.extract(radiiPattern); radii; radii = p.extract(radiiPattern))
+			this.windRadii.push(toRadii(radii));
+
+		// Record where the forecast was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static radiiSchema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			threshold: WmoSchema.number(),
+			ne: WmoSchema.number(),
+			se: WmoSchema.number(),
+			sw: WmoSchema.number(),
+			nw: WmoSchema.number()
+		});
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			hour: WmoSchema.number(),
+			time: WmoSchema.ref('WmoDate'),
+			outlook: WmoSchema.boolean(),
+			location: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			maxWinds: num,
+			gusts: num,
+			windRadii: WmoSchema.array(Wtxx2xForecast.radiiSchema()),
+			status: WmoSchema.nullable(WmoSchema.string()),
+			postTropical: WmoSchema.boolean(),
+			dissipated: WmoSchema.boolean(),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IWtxx2xForecast): Wtxx2xForecast {
+		return Object.assign(Object.create(Wtxx2xForecast.prototype) as Wtxx2xForecast, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IWtxx2xForecast {
+		return {
+			hour: this.hour,
+			time: this.time.toJSON(),
+			outlook: this.outlook,
+			location: this.location,
+			maxWinds: this.maxWinds,
+			gusts: this.gusts,
+			windRadii: this.windRadii,
+			status: this.status,
+			postTropical: this.postTropical,
+			dissipated: this.dissipated,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
@@ -0,0 +1,374 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Tropical Cyclone Public Advisory (TCP), issued by the NHC (WTNT31-35 / WTPZ31-35) and CPHC (WTPA31-35).
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IWtxxHeader, WtxxHeader} from "./WtxxHeader.js";
+
+export interface IWtxx3xWatchWarning {
+	type: string;
+	areas: string[];
+}
+
+export interface IWtxx3xHazard {
+	name: string;
+	text: string;
+}
+
+export interface IWtxx3xNextAdvisory {
+	intermediate: string | null;
+	complete: string | null;
+}
+
+export interface IWtxx3x extends IWmoMessage {
+	header: IWtxxHeader;
+	headlines: string[];
+	summary: IWtxx3xSummary | null;
+	changes: string[];
+	watchesWarnings: IWtxx3xWatchWarning[];
+	discussion: string[];
+	hazardsIntro: string | null;
+	hazards: IWtxx3xHazard[];
+	nextAdvisory: IWtxx3xNextAdvisory | null;
+	forecaster: string | null;
+}
+
+export class WTXX3X extends WmoMessage {
+
+	public readonly header: WtxxHeader;
+	public readonly headlines: string[] = [];
+	public readonly summary: Wtxx3xSummary | null = null;
+	public readonly changes: string[] = [];
+	public readonly watchesWarnings: IWtxx3xWatchWarning[] = [];
+	public readonly discussion: string[] = [];
+	public readonly hazardsIntro: string | null = null;
+	public readonly hazards: IWtxx3xHazard[] = [];
+	public readonly nextAdvisory: IWtxx3xNextAdvisory | null = null;
+	public readonly forecaster: string | null = null;
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Parse the storm heading
+		// Hurricane Milton Advisory Number  17
+		// NWS National Hurricane Center Miami FL       AL142024
+		// 1000 AM CDT Tue Oct 08 2024
+		const p = wmoFile.parser;
+		this.header = new WtxxHeader(p, 'Advisory');
+		p.skipEmpty();
+
+		// Headlines start and end with ..., and may wrap over multiple lines
+		// ...MILTON EXPECTED TO REMAIN AN EXTREMELY DANGEROUS HURRICANE THROUGH
+		// LANDFALL ON THE WEST-CENTRAL COAST OF FLORIDA...
+		for (const line of WTXX3X.paragraphs(p).flatMap(h => h.split('\n'))) {
+			if (line.startsWith('...') || this.headlines.length <= 0)
+				this.headlines.push(line);
+			else
+				this.headlines[this.headlines.length - 1] += ' ' + line;
+		}
+		this.headlines = this.headlines.map(h => h.replace(/^\.+|\.+$/g, '').trim());
+
+		// Parse each section (a title line underlined with dashes)
+		while (WTXX3X.isSection(p)) {
+			const title = p.assert('Expected section title', /^(.*)$/)[1] ?? '';
+			p.extract(/^-+$/);
+
+			// SUMMARY OF 1000 AM CDT...1500 UTC...INFORMATION
+			if (title.match(/^SUMMARY OF/i)) {
+				this.summary = new Wtxx3xSummary(p, this.header.issuedOn, title.match(/(\d{2})(\d{2})\s+UTC/i));
+			} else if (title.match(/^WATCHES AND WARNINGS/i)) {
+				this.parseWatchesWarnings(WTXX3X.paragraphs(p));
+			} else if (title.match(/^DISCUSSION AND OUTLOOK/i)) {
+				this.discussion.push(...WTXX3X.paragraphs(p).map(t => t.replace(/\n/g, ' ')));
+			} else if (title.match(/^HAZARDS/i)) {
+				this.hazardsIntro = this.parseHazards(WTXX3X.paragraphs(p));
+			} else if (title.match(/^NEXT ADVISORY/i)) {
+				const text = WTXX3X.paragraphs(p).join('\n');
+				this.nextAdvisory = {
+					intermediate: text.match(/Next intermediate advisory at (.*?)\.?$/im)?.[1] ?? null,
+					complete: text.match(/Next complete advisory at (.*?)\.?$/im)?.[1] ?? null
+				};
+			} else {
+				// Skip any other sections
+				WTXX3X.paragraphs(p);
+			}
+		}
+
+		// Skip to the end of the product, which is followed by the forecaster
+		p.extractUntil(/^\$\$/);
+		p.extract(/^\$\$/);
+		this.forecaster = p.extract(/^Forecaster\s+(.*?)$/i)?.[1] ?? null;
+	}
+
+	private static isSection(p: WmoParser): boolean {
+		return !!p.peek() && !!p.peek(1)?.match(/^\s*-{3,}\s*$/);
+	}
+
+	private static paragraphs(p: WmoParser): string[] {
+		// Read each paragraph (keeping the line breaks), up to the next section or the end of the product
+		const paragraphs: string[] = [];
+		while (p.peek() !== undefined && !p.peek()?.match(/^\$\$/) && !WTXX3X.isSection(p)) {
+			paragraphs.push(p.extractUntil(/^$|^\$\$/, '\n', true, false));
+			p.skipEmpty();
+		}
+		return paragraphs;
+	}
+
+	private parseWatchesWarnings(paragraphs: string[]): void {
+		// CHANGES WITH THIS ADVISORY:
+		// ...
+		// SUMMARY OF WATCHES AND WARNINGS IN EFFECT:
+		// A Hurricane Warning is in effect for...
+		// * Bonita Beach northward to Suwannee River, including Tampa Bay
+		let inChanges = false;
+		for (const paragraph of paragraphs) {
+			if (paragraph.match(/^CHANGES WITH THIS ADVISORY/i)) {
+				inChanges = true;
+				continue;
+			}
+			if (paragraph.match(/^SUMMARY OF WATCHES AND WARNINGS/i)) {
+				inChanges = false;
+				continue;
+			}
+
+			if (inChanges) {
+				if (!paragraph.match(/^None\.?$/i))
+					this.changes.push(paragraph.replace(/\n/g, ' '));
+				continue;
+			}
+
+			// Each watch or warning lists its areas as bullets, which may wrap over multiple lines
+			const [first, ...lines] = paragraph.split('\n');
+			const type = first?.match(/^An?\s+(.*?)\s+(?:is|are)\s+in\s+effect\s+for/i)?.[1];
+			if (!type)
+				continue;
+			const areas: string[] = [];
+			for (const line of lines) {
+				if (line.startsWith('*') || areas.length <= 0)
+					areas.push(line.replace(/^\*\s*/, ''));
+				else
+					areas[areas.length - 1] += ' ' + line;
+			}
+			this.watchesWarnings.push({type, areas});
+		}
+	}
+
+	private parseHazards(paragraphs: string[]): string | null {
+		// Each hazard starts with its name, followed by any number of paragraphs (i.e. the storm surge table). The line
+		// breaks of every paragraph are kept, so the rows of the tables are not lost.
+		// STORM SURGE:  The combination of a dangerous storm surge and the tide...
+		const intro: string[] = [];
+		for (const paragraph of paragraphs) {
+			const hazard = paragraph.match(/^([A-Z][A-Z ]+):\s+([\s\S]*)$/);
+			const last = this.hazards[this.hazards.length - 1];
+			if (hazard)
+				this.hazards.push({name: hazard[1] ?? '', text: hazard[2] ?? ''});
+			else if (last)
+				last.text += '\n\n' + paragraph;
+			else
+				intro.push(paragraph);
+		}
+
+		// Any paragraphs before the first hazard (i.e. where to find the Key Messages)
+		return intro.length > 0 ? intro.join('\n\n') : null;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			header: WtxxHeader.schema(),
+			headlines: WmoSchema.array(WmoSchema.string()),
+			summary: WmoSchema.nullable(Wtxx3xSummary.schema()),
+			changes: WmoSchema.array(WmoSchema.string()),
+			watchesWarnings: WmoSchema.array(WmoSchema.object({
+				type: WmoSchema.string(),
+				areas: WmoSchema.array(WmoSchema.string())
+			})),
+			discussion: WmoSchema.array(WmoSchema.string()),
+			hazardsIntro: text,
+			hazards: WmoSchema.array(WmoSchema.object({
+				name: WmoSchema.string(),
+				text: WmoSchema.string()
+			})),
+			nextAdvisory: WmoSchema.nullable(WmoSchema.object({
+				intermediate: text,
+				complete: text
+			})),
+			forecaster: text
+		});
+	}
+
+	public static fromJSON(json: IWtxx3x, wmoFile: WmoFile): WTXX3X {
+		return Object.assign(Object.create(WTXX3X.prototype) as WTXX3X, {
+			wmoFile: wmoFile,
+			...json,
+			header: WtxxHeader.fromJSON(json.header),
+			summary: json.summary ? Wtxx3xSummary.fromJSON(json.summary) : null
+		});
+	}
+
+	public override toJSON(): IWtxx3x {
+		return {
+			header: this.header.toJSON(),
+			headlines: this.headlines,
+			summary: this.summary?.toJSON() ?? null,
+			changes: this.changes,
+			watchesWarnings: this.watchesWarnings,
+			discussion: this.discussion,
+			hazardsIntro: this.hazardsIntro,
+			hazards: this.hazards,
+			nextAdvisory: this.nextAdvisory,
+			forecaster: this.forecaster
+		};
+	}
+}
+
+export interface IWtxx3xReference {
+	miles: number;
+	km: number;
+	direction: string;
+	place: string;
+}
+
+export interface IWtxx3xMovement {
+	direction: string | null;
+	degrees: number | null;
+	mph: number | null;
+	kmh: number | null;
+	text: string;
+}
+
+export interface IWtxx3xSummary {
+	time: IWmoDate | null;
+	location: IWmoCoordinates | null;
+	references: IWtxx3xReference[];
+	winds: {mph: number, kmh: number} | null;
+	movement: IWtxx3xMovement | null;
+	pressure: {mb: number, inches: number} | null;
+	span?: IWmoSourceSpan;
+}
+
+export class Wtxx3xSummary implements IWmoObject {
+
+	public readonly time: WmoDate | null = null;
+	public readonly location: IWmoCoordinates | null = null;
+	public readonly references: IWtxx3xReference[] = [];
+	public readonly winds: {mph: number, kmh: number} | null = null;
+	public readonly movement: IWtxx3xMovement | null = null;
+	public readonly pressure: {mb: number, inches: number} | null = null;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, issuedOn: WmoDate, time: RegExpMatchArray | null) {
+		// The summary time is given in UTC, so resolve it against the issued date
+		if (time)
+			this.time = WmoDateResolver.resolve({hour: parseInt(time[1] ?? 'NaN'), minute: parseInt(time[2] ?? 'NaN')}, issuedOn);
+
+		// Each line is a field, with the values separated by ...
+		const start = p.mark();
+		for (let line = p.extract(/^(.*?)\.\.\.(.*)$/); line; line = p.extract(/^(.*?)\.\.\.(.*)$/)) {
+			const value = line[2] ?? '';
+
+			// LOCATION...22.8N 88.8W
+			const location = value.match(/^(\d+\.?\d*)([NS])\s+(\d+\.?\d*)([EW])/);
+			if (line[1]?.match(/^LOCATION/i) && location) {
+				this.location = {
+					lat: parseFloat(location[1] ?? 'NaN') * (location[2] === 'S' ? -1 : 1),
+					lon: parseFloat(location[3] ?? 'NaN') * (location[4] === 'W' ? -1 : 1)
+				};
+			}
+
+			// ABOUT 520 MI...835 KM SW OF TAMPA FLORIDA
+			const reference = line[0].match(/^ABOUT\s+(\d+)\s+MI\.+(\d+)\s+KM\s+([NSEW]+)\s+OF\s+(.*)$/i);
+			if (reference) {
+				this.references.push({
+					miles: parseInt(reference[1] ?? 'NaN'),
+					km: parseInt(reference[2] ?? 'NaN'),
+					direction: reference[3] ?? '',
+					place: reference[4] ?? ''
+				});
+			}
+
+			// MAXIMUM SUSTAINED WINDS...150 MPH...240 KM/H
+			const winds = value.match(/^(\d+)\s+MPH\.+(\d+)\s+KM\/H/i);
+			if (line[1]?.match(/^MAXIMUM SUSTAINED WINDS/i) && winds)
+				this.winds = {mph: parseInt(winds[1] ?? 'NaN'), kmh: parseInt(winds[2] ?? 'NaN')};
+
+			// PRESENT MOVEMENT...ENE OR 70 DEGREES AT 10 MPH...17 KM/H (or STATIONARY)
+			if (line[1]?.match(/^PRESENT MOVEMENT/i)) {
+				const movement = value.match(/^([NSEW]+)\s+OR\s+(\d+)\s+DEGREES\s+AT\s+(\d+)\s+MPH\.+(\d+)\s+KM\/H/i);
+				this.movement = {
+					direction: movement?.[1] ?? null,
+					degrees: movement?.[2] ? parseInt(movement[2]) : null,
+					mph: movement?.[3] ? parseInt(movement[3]) : null,
+					kmh: movement?.[4] ? parseInt(movement[4]) : null,
+					text: value
+				};
+			}
+
+			// MINIMUM CENTRAL PRESSURE...919 MB...27.14 INCHES
+			const pressure = value.match(/^(\d+)\s+MB\.+(\d+\.?\d*)\s+INCHES/i);
+			if (line[1]?.match(/^MINIMUM CENTRAL PRESSURE/i) && pressure)
+				this.pressure = {mb: parseInt(pressure[1] ?? 'NaN'), inches: parseFloat(pressure[2] ?? 'NaN')};
+		}
+
+		// Record where the summary was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.number();
+		return WmoSchema.object({
+			time: WmoSchema.nullable(WmoSchema.ref('WmoDate')),
+			location: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			references: WmoSchema.array(WmoSchema.object({
+				miles: num,
+				km: num,
+				direction: WmoSchema.string(),
+				place: WmoSchema.string()
+			})),
+			winds: WmoSchema.nullable(WmoSchema.object({mph: num, kmh: num})),
+			movement: WmoSchema.nullable(WmoSchema.object({
+				direction: WmoSchema.nullable(WmoSchema.string()),
+				degrees: WmoSchema.nullable(num),
+				mph: WmoSchema.nullable(num),
+				kmh: WmoSchema.nullable(num),
+				text: WmoSchema.string()
+			})),
+			pressure: WmoSchema.nullable(WmoSchema.object({mb: num, inches: num})),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IWtxx3xSummary): Wtxx3xSummary {
+		return Object.assign(Object.create(Wtxx3xSummary.prototype) as Wtxx3xSummary, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IWtxx3xSummary {
+		return {
+			time: this.time?.toJSON() ?? null,
+			location: this.location,
+			references: this.references,
+			winds: this.winds,
+			movement: this.movement,
+			pressure: this.pressure,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
@@ -0,0 +1,210 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Tropical Cyclone Discussion (TCD), issued by the NHC (WTNT41-45 / WTPZ41-45) and CPHC (WTPA41-45). The
+ * free-text discussion is split into paragraphs, followed by the forecast positions and max winds table.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoCoordinates, IWmoObject, IWmoSourceSpan} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoDateBias, WmoDateResolver} from "../../WmoDateResolver.js";
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IWtxxHeader, WtxxHeader} from "./WtxxHeader.js";
+
+const tableTitle = /^FORECAST POSITIONS AND MAX WINDS/i;
+const rowStart = /^\s*(INIT|\d+H)\s/;
+
+export interface IWtxx4x extends IWmoMessage {
+	header: IWtxxHeader;
+	paragraphs: string[];
+	positions: IWtxx4xPosition[];
+	forecaster: string | null;
+}
+
+export class WTXX4X extends WmoMessage {
+
+	public readonly header: WtxxHeader;
+	public readonly paragraphs: string[] = [];
+	public readonly positions: Wtxx4xPosition[] = [];
+	public readonly forecaster: string | null = null;
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Parse the storm heading
+		// Hurricane Milton Discussion Number  17
+		// NWS National Hurricane Center Miami FL       AL142024
+		// 1000 AM CDT Tue Oct 08 2024
+		const p = wmoFile.parser;
+		this.header = new WtxxHeader(p, 'Discussion');
+		p.skipEmpty();
+
+		// Read each paragraph of the discussion (including the key messages), up to the forecast table
+		while (p.peek() !== undefined && !p.peek()?.match(/^\$\$/) && !p.peek()?.match(tableTitle)) {
+			this.paragraphs.push(p.extractUntil(/^$|^\$\$/, ' ', true, false));
+			p.skipEmpty();
+		}
+
+		// FORECAST POSITIONS AND MAX WINDS
+		//
+		// INIT  08/1500Z 22.8N  88.8W  140 KT 160 MPH
+		//  12H  09/0000Z 23.6N  87.5W  135 KT 155 MPH
+		if (p.extract(tableTitle)) {
+			p.skipEmpty();
+
+			// The initial position is nearest the bulletin date, with each forecast following the previous row
+			let reference = wmoFile.header.datetime;
+			let bias: WmoDateBias = 'nearest';
+			for (let next = p.peek(); next && !next.match(/^\$\$/); next = p.peek()) {
+				const position = p.recover(() => new Wtxx4xPosition(p, reference, bias), new RegExp(`${rowStart.source}|^$|^\\$\\$`));
+				if (position) {
+					this.positions.push(position);
+					reference = position.time;
+					bias = 'forward';
+				}
+			}
+		}
+
+		// Skip to the end of the product, which is followed by the forecaster
+		p.extractUntil(/^\$\$/);
+		p.extract(/^\$\$/);
+		this.forecaster = p.extract(/^Forecaster\s+(.*?)$/i)?.[1] ?? null;
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			header: WtxxHeader.schema(),
+			paragraphs: WmoSchema.array(WmoSchema.string()),
+			positions: WmoSchema.array(Wtxx4xPosition.schema()),
+			forecaster: WmoSchema.nullable(WmoSchema.string())
+		});
+	}
+
+	public static fromJSON(json: IWtxx4x, wmoFile: WmoFile): WTXX4X {
+		return Object.assign(Object.create(WTXX4X.prototype) as WTXX4X, {
+			wmoFile: wmoFile,
+			...json,
+			header: WtxxHeader.fromJSON(json.header),
+			positions: json.positions.map(f => Wtxx4xPosition.fromJSON(f))
+		});
+	}
+
+	public override toJSON(): IWtxx4x {
+		return {
+			header: this.header.toJSON(),
+			paragraphs: this.paragraphs,
+			positions: this.positions.map(f => f.toJSON()),
+			forecaster: this.forecaster
+		};
+	}
+}
+
+export interface IWtxx4xPosition {
+	label: string;
+	hour: number;
+	time: IWmoDate;
+	location: IWmoCoordinates | null;
+	maxWinds: number | null;
+	maxWindsMph: number | null;
+	status: string | null;
+	postTropical: boolean;
+	dissipated: boolean;
+	span?: IWmoSourceSpan;
+}
+
+export class Wtxx4xPosition implements IWmoObject {
+
+	public readonly label: string;
+	public readonly hour: number;
+	public readonly time: WmoDate;
+	public readonly location: IWmoCoordinates | null = null;
+	public readonly maxWinds: number | null = null;
+	public readonly maxWindsMph: number | null = null;
+	public readonly status: string | null = null;
+	public readonly postTropical: boolean;
+	public readonly dissipated: boolean;
+	public readonly span: IWmoSourceSpan | null = null;
+
+	public constructor(p: WmoParser, reference: WmoDate, bias: WmoDateBias) {
+		//  48H  10/1200Z 28.4N  80.3W   85 KT 100 MPH...INLAND
+		//  111  22 3344  5555 6 77777 8 99      AA       BBBBBB
+		const start = p.mark();
+		const row = p.assert('Expected forecast position row',
+			/^(INIT|\d+H)\s+(\d{2})\/(\d{2})(\d{2})Z(?:\s+(\d+\.?\d*)([NS])\s+(\d+\.?\d*)([EW]))?(?:\s+(\d+)\s+KT\s+(\d+)\s+MPH)?(?:\.+\s*(.*?))?$/,
+			WmoErrorCode.badTcdPosition);
+		this.label = row[1] ?? '';
+		this.hour = this.label === 'INIT' ? 0 : parseInt(this.label);
+		this.time = WmoDateResolver.resolve({
+			day: parseInt(row[2] ?? 'NaN'),
+			hour: parseInt(row[3] ?? 'NaN'),
+			minute: parseInt(row[4] ?? 'NaN')
+		}, reference, {bias});
+
+		if (row[5]) {
+			this.location = {
+				lat: parseFloat(row[5]) * (row[6] === 'S' ? -1 : 1),
+				lon: parseFloat(row[7] ?? 'NaN') * (row[8] === 'W' ? -1 : 1)
+			};
+		}
+		if (row[9]) {
+			this.maxWinds = parseInt(row[9]);
+			this.maxWindsMph = parseInt(row[10] ?? 'NaN');
+		}
+
+		// The status (i.e. INLAND, POST-TROP/EXTRATROP or DISSIPATED) follows the intensity
+		this.status = row[11] || null;
+		this.postTropical = !!this.status?.match(/POST-TROP|EXTRATROP|REMNT|REMNANT/);
+		this.dissipated = !!this.status?.match(/DISSIPATED/);
+
+		// Record where the row was in the source (if enabled)
+		this.span = p.span(start);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const num = WmoSchema.nullable(WmoSchema.number());
+		return WmoSchema.object({
+			label: WmoSchema.string(),
+			hour: WmoSchema.number(),
+			time: WmoSchema.ref('WmoDate'),
+			location: WmoSchema.nullable(WmoSchema.ref('WmoCoordinates')),
+			maxWinds: num,
+			maxWindsMph: num,
+			status: WmoSchema.nullable(WmoSchema.string()),
+			postTropical: WmoSchema.boolean(),
+			dissipated: WmoSchema.boolean(),
+			span: WmoSchema.ref('WmoSourceSpan')
+		}, ['span']);
+	}
+
+	public static fromJSON(json: IWtxx4xPosition): Wtxx4xPosition {
+		return Object.assign(Object.create(Wtxx4xPosition.prototype) as Wtxx4xPosition, {
+			...json,
+			time: WmoDate.fromJSON(json.time),
+			span: json.span ?? null
+		});
+	}
+
+	public toJSON(): IWtxx4xPosition {
+		return {
+			label: this.label,
+			hour: this.hour,
+			time: this.time.toJSON(),
+			location: this.location,
+			maxWinds: this.maxWinds,
+			maxWindsMph: this.maxWindsMph,
+			status: this.status,
+			postTropical: this.postTropical,
+			dissipated: this.dissipated,
+			...(this.span ? {span: this.span} : {})
+		};
+	}
+}
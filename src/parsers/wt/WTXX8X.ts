@@ -0,0 +1,75 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the Tropical Cyclone VTEC (TCV) watch/warning products, issued by the NHC (WTNT81-85 / WTPZ81-85) for the
+ * breakpoints and by each WFO for the local zones (TCVxxx). Each $$ delimited segment is decoded into its UGC zones and
+ * P-VTEC events.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {WmoFile} from "../../WmoFile.js";
+import {IWmoMessage, WmoMessage} from '../../WmoMessage.js';
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+import {IWmoUgcSegment, WmoUgcSegment} from "../../WmoUgc.js";
+import {IWtxxHeader, WtxxHeader} from "./WtxxHeader.js";
+
+export interface IWtxx8x extends IWmoMessage {
+	header: IWtxxHeader;
+	storm: string | null;
+	segments: IWmoUgcSegment[];
+}
+
+export class WTXX8X extends WmoMessage {
+
+	public readonly header: WtxxHeader;
+	public readonly storm: string | null;
+	public readonly segments: WmoUgcSegment[];
+
+	public constructor(wmoFile: WmoFile) {
+		super(wmoFile);
+
+		// Parse the storm heading, which differs between the NHC breakpoints and the WFO local zones
+		// MILTON WATCH/WARNING BREAKPOINTS/ADVISORY NUMBER 17
+		// Hurricane Milton Local Watch/Warning Statement/Advisory Number 17
+		const p = wmoFile.parser;
+		const local = p.getLines(p.mark(), p.mark() + 3).some(l => l.match(/Local Watch\/Warning Statement/i));
+		this.header = new WtxxHeader(p, local ? 'Local Watch/Warning Statement/Advisory' : 'Watch/Warning Breakpoints/Advisory');
+
+		// .HURRICANE MILTON (only in the NHC product)
+		this.storm = p.extract(/^\.([^.].*)$/)?.[1] ?? null;
+
+		// Split each segment, which has the UGC zones and P-VTEC events
+		// FLZ069-070-075-081600-
+		// /O.NEW.KNHC.HU.W.1014.241008T1500Z-000000T0000Z/
+		this.segments = WmoUgcSegment.split(p, wmoFile.header.datetime);
+	}
+
+	public static schema(): IWmoJsonSchema {
+		return WmoSchema.object({
+			header: WtxxHeader.schema(),
+			storm: WmoSchema.nullable(WmoSchema.string()),
+			segments: WmoSchema.array(WmoUgcSegment.schema())
+		});
+	}
+
+	public static fromJSON(json: IWtxx8x, wmoFile: WmoFile): WTXX8X {
+		return Object.assign(Object.create(WTXX8X.prototype) as WTXX8X, {
+			wmoFile: wmoFile,
+			header: WtxxHeader.fromJSON(json.header),
+			storm: json.storm,
+			segments: json.segments.map(s => WmoUgcSegment.fromJSON(s))
+		});
+	}
+
+	public override toJSON(): IWtxx8x {
+		return {
+			header: this.header.toJSON(),
+			storm: this.storm,
+			segments: this.segments.map(s => s.toJSON())
+		};
+	}
+}
@@ -0,0 +1,121 @@
+/*!
+ * WMO Parser <https://github.com/r-hurricane/wmo-parser>
+ *
+ * NOTE: This is not an official NWS/WMO library.
+ *
+ * Parses the storm heading shared by the NHC / CPHC tropical cyclone products (i.e. the Public Advisory, Forecast
+ * Advisory and Discussion), which names the storm, the product number, the issuing office and the issued date.
+ *
+ * Copyright (c) 2025, Tyler Hadidon (Beach-Brews)
+ * Released under the MIT License.
+ */
+
+import {IWmoObject} from "../../WmoInterfaces.js";
+import {IWmoDate, WmoDate} from '../../WmoDate.js';
+import {WmoParser} from "../../WmoParser.js";
+import {WmoErrorCode, WmoParseError} from "../../WmoParseError.js";
+import {IWmoJsonSchema, WmoSchema} from "../../WmoSchema.js";
+
+export interface IWtxxHeader {
+	stormType: string | null;
+	stormName: string;
+	product: string;
+	number: number;
+	letter: string | null;
+	intermediate: boolean;
+	special: boolean;
+	issuedBy: string;
+	stormId: string | null;
+	issuedOn: IWmoDate | null;
+}
+
+export class WtxxHeader implements IWmoObject {
+
+	// Longest first, so "Post-Tropical Cyclone" is not read as a "Tropical Cyclone"
+	private static readonly stormTypes = /^(Potential Tropical Cyclone|Post-Tropical Cyclone|Subtropical Depression|Subtropical Storm|Tropical Depression|Tropical Cyclone|Tropical Storm|Super Typhoon|Remnants Of|Hurricane|Typhoon)\s+(.*)$/i;
+
+	public readonly stormType: string | null = null;
+	public readonly stormName: string;
+	public readonly product: string;
+	public readonly number: number;
+	public readonly letter: string | null = null;
+	public readonly intermediate: boolean;
+	public readonly special: boolean;
+	public readonly issuedBy: string;
+	public readonly stormId: string | null = null;
+	public readonly issuedOn: WmoDate;
+
+	public constructor(p: WmoParser, product: string) {
+		// Skip the "BULLETIN" (or "URGENT - IMMEDIATE BROADCAST REQUESTED") line (only in some products)
+		p.extract(/^(BULLETIN|URGENT - IMMEDIATE BROADCAST REQUESTED)$/i);
+
+		// Hurricane Milton Intermediate Advisory Number 17A
+		// 1111111111111111 222222222222 3333333333        4455
+		const heading = p.assert(`Expected ${product} heading line`,
+			new RegExp(`^(.*?)\\s+(Special\\s+|Intermediate\\s+)?(${product.replace('/', '\\/')})\\s+Number\\s+(\\d+)([A-Z])?$`, 'i'),
+			WmoErrorCode.missingStormHeading);
+
+		// Split the storm type from the name (the type is unknown if not one of the expected types)
+		const storm = (heading[1] ?? '').match(WtxxHeader.stormTypes);
+		this.stormType = storm?.[1] ?? null;
+		this.stormName = storm?.[2] ?? heading[1] ?? '';
+		this.product = heading[3] ?? product;
+		this.number = parseInt(heading[4] ?? 'NaN');
+		this.letter = heading[5] ?? null;
+		this.intermediate = !!heading[2]?.match(/Intermediate/i);
+		this.special = !!heading[2]?.match(/Special/i);
+
+		// NWS National Hurricane Center Miami FL       AL142024
+		const issuedBy = p.assert('Expected issued by line', /^(.*?)(?:\s+([A-Z]{2}\d{6}))?$/,
+			WmoErrorCode.missingStormIssuer);
+		this.issuedBy = issuedBy[1] ?? '';
+		this.stormId = issuedBy[2] ?? null;
+
+		// 1000 AM CDT Tue Oct 08 2024 (the Forecast Advisory is issued in UTC, i.e. 1500 UTC TUE OCT 08 2024)
+		const date = p.assert('Expected date line', /^\d{3,4}\s+(?:AM|PM|UTC)\s+.*\d{4}$/i, WmoErrorCode.missingStormDate)[0];
+		this.issuedOn = date.match(/UTC/i)
+			? new WmoDate(date.replace(/\s+UTC/i, 'Z'), 'HHmmX EEE MMM dd yyyy')
+			: new WmoDate(date, 'hmm a XXX EEE MMM dd yyyy');
+	}
+
+	public static schema(): IWmoJsonSchema {
+		const text = WmoSchema.nullable(WmoSchema.string());
+		return WmoSchema.object({
+			stormType: text,
+			stormName: WmoSchema.string(),
+			product: WmoSchema.string(),
+			number: WmoSchema.number(),
+			letter: text,
+			intermediate: WmoSchema.boolean(),
+			special: WmoSchema.boolean(),
+			issuedBy: WmoSchema.string(),
+			stormId: text,
+			issuedOn: WmoSchema.nullable(WmoSchema.ref('WmoDate'))
+		});
+	}
+
+	public static fromJSON(json: IWtxxHeader): WtxxHeader {
+		if (!json.issuedOn)
+			throw new WmoParseError('Expected the storm heading JSON to have an issued date', {code: WmoErrorCode.missingStormDate});
+
+		return Object.assign(Object.create(WtxxHeader.prototype) as WtxxHeader, {
+			...json,
+			issuedOn: WmoDate.fromJSON(json.issuedOn)
+		});
+	}
+
+	public toJSON(): IWtxxHeader {
+		return {
+			stormType: this.stormType,
+			stormName: this.stormName,
+			product: this.product,
+			number: this.number,
+			letter: this.letter,
+			intermediate: this.intermediate,
+			special: this.special,
+			issuedBy: this.issuedBy,
+			stormId: this.stormId,
+			issuedOn: this.issuedOn.toJSON()
+		};
+	}
+}
@@ -1,12 +1,665 @@
 ﻿import nodeFs from 'node:fs';
 import nodePath from 'node:path';
-import {parseWmo} from './index.js';
+import {FTXX, isHdob, isHls, isMetar, isTaf, isTcd, isTcm, isTcp, isTcv, isTemp, isTempDrop, isVdm, IWmoFile,
+    messageParsers, parseWmo, parseWmoBatch, parseWmoJson, SAXX, splitWmo, streamWmo, URXX12, URXX15, validateWmoJson,
+    WmoBatchParser, WmoDate, WmoDateResolver, WmoErrorCode, WmoFile, WmoHeader, WmoParseError, WmoParserRegistry,
+    WmoSegmentAssembler, WmoVersionStore} from './index.js';
+import {WmoParser} from './WmoParser.js';
 
 interface ITestCaseFile {
     [key: string]: boolean
 }
 
-(() => {
+// Parses the text, ensuring the JSON matches the expected JSON (if given) and the schema, and reads back the same
+const checkFile = (text: string, expected?: string): WmoFile => {
+    const wmoFile = parseWmo(text);
+
+    if (expected !== undefined) {
+        const parsedStr = JSON.stringify(wmoFile);
+        if (expected.trim() != parsedStr.trim())
+            throw new Error(`Parsed JSON does not match expected test JSON.\n\nPARSED\n------\n${parsedStr}\n\nEXPECTED\n--------\n${expected}`);
+    }
+
+    // Ensure the JSON matches the schema for the designator
+    const validation = validateWmoJson(wmoFile);
+    if (!validation.valid)
+        throw new Error(`Parsed JSON does not match the schema.\n\n${validation.errors.map(e => `${e.path}: ${e.message}`).join('\n')}`);
+
+    // Ensure the JSON can be read back into an equivalent file
+    const originalStr = JSON.stringify(wmoFile);
+    const rehydratedStr = JSON.stringify(parseWmoJson(originalStr));
+    if (originalStr !== rehydratedStr)
+        throw new Error(`Rehydrated JSON does not match parsed JSON.\n\nREHYDRATED\n----------\n${rehydratedStr}\n\nPARSED\n------\n${originalStr}`);
+
+    return wmoFile;
+};
+
+const expect = (actual: unknown, expected: unknown, what: string): void => {
+    if (actual !== expected)
+        throw new Error(`Expected ${what} to be ${expected}, but was ${actual}`);
+};
+
+// Short bulletins (without the starting line), shared by the checks of the splitter, batch parser and version store
+const metarLines = ['SAUS70 KWBC 081900', 'METAR KTPA 081853Z 09015G25KT 10SM FEW008 24/23 A2990='];
+const hdobLines = [
+    'URNT15 KNHC 081421',
+    'NOAA2 1714A MILTON             HDOB 08 20241008',
+    '141230 2349N 08612W 6967 03128 0076 +096 +079 124038 040 042 001 00',
+    '$$'
+];
+
+// Built-in checks, for behavior the test suites may not cover
+const builtInChecks: [string, () => void | Promise<void>][] = [
+    ['TTAA00 sounding reads back from JSON', () => {
+        // The TTAA00 designator is shared with the TWO, so the JSON must be read back as a sounding
+        const wmoFile = checkFile([
+            '000',
+            'TTAA00 KWBC 081200',
+            'TTAA 58121 72210 99014 25657 15010 00118 25257 16512 92803 21056',
+            '19014 85532 17057 21517 70182 08454 23514 50588 06965 24520 40758',
+            '17765 24525 30966 32950 25535 25089 41950 25037 20237 54558 25040',
+            '15393 62958 24535 10648 73958 24028 88118 71959 25540 77999 31313',
+            '58708 81101 41414 21///='
+        ].join('\n'));
+        expect(isTemp(wmoFile), true, 'the parsed file to be a TEMP');
+        expect(isTemp(parseWmoJson(JSON.stringify(wmoFile))), true, 'the rehydrated file to be a TEMP');
+    }],
+    ['Rehydrated file keeps the lenient flag and the source text', () => {
+        const text = [
+            '000',
+            'URNT15 KNHC 081421',
+            'NOAA2 1714A MILTON             HDOB 08 20241008',
+            '141230 2349N 08612W 6967 03128 0076 +096 +079 124038 040 042 001 00',
+            '$$'
+        ].join('\n');
+        const wmoFile = parseWmo(text, {lenient: true});
+        const json = JSON.parse(JSON.stringify(wmoFile)) as IWmoFile;
+        expect(json.lenient, true, 'the JSON lenient flag');
+
+        // Without the text, only the header lines are available
+        expect(WmoFile.fromJSON(json).parser.isLenient(), true, 'the rehydrated file to be lenient');
+        expect(WmoFile.fromJSON(json).parser.totalLines(), 2, 'the header lines of the rehydrated file');
+        expect(WmoFile.fromJSON(json, undefined, text).parser.getLines(0).join('\n'), text,
+            'the source text of the rehydrated file');
+    }],
+    ['Feed split by control characters and by abbreviated headings', () => {
+        // NOAAPort framing, with CR CR LF line endings
+        const framed = splitWmo(['\x01', '001 ', ...metarLines, '\x03\x01', '002 ', ...hdobLines, '\x03'].join('\r\r\n'));
+        expect(framed.map(r => `${r.index}:${r.file?.header.designator}:${r.file?.header.sequence}`).join(' '),
+            '0:SAUS70:1 1:URNT15:2', 'the framed bulletins');
+
+        // Without framing, each heading (and its starting line) starts a bulletin, and a bad bulletin does not stop the rest
+        const plain = splitWmo(['003', ...metarLines, '', 'ZZZZ99 KWBC 081900', 'UNKNOWN', '004', ...hdobLines].join('\n'));
+        expect(plain.map(r => `${r.index}:${r.file?.header.designator}:${r.file?.header.sequence}`).join(' '),
+            '0:SAUS70:3 1:undefined:undefined 2:URNT15:4', 'the unframed bulletins');
+        expect(plain[1]?.text, 'ZZZZ99 KWBC 081900\nUNKNOWN', 'the text of the bad bulletin');
+        expect(plain[1]?.error instanceof WmoParseError && plain[1].error.code, WmoErrorCode.noMessageParser,
+            'the error of the bad bulletin');
+    }],
+    ['Registry picks by priority, then specificity, then the latest registration', () => {
+        const header = new WmoHeader(new WmoParser(metarLines.join('\n')));
+        const registry = new WmoParserRegistry()
+            .register({designator: 'SA????', parser: SAXX})
+            .register({designator: 'SAUS70', station: 'KWBC', parser: FTXX});
+        expect(registry.find(header)?.name, 'FTXX', 'the most specific parser');
+        registry.register({designator: 'SA*', parser: URXX12, priority: 1});
+        expect(registry.find(header)?.name, 'URXX12', 'the highest priority parser');
+        registry.unregister(URXX12);
+        registry.register({designator: 'SAUS70', station: 'KWBC', parser: URXX15});
+        expect(registry.find(header)?.name, 'URXX15', 'the latest of the equally specific parsers');
+
+        // The built-in registrations tell the TCV and HLS apart by the AWIPS identifier, as both use WTUS8x
+        const wfo = (awips: string) => new WmoHeader(new WmoParser(`WTUS82 KMFL 081500\n${awips}\nFLZ069-081600-`));
+        expect(messageParsers.find(wfo('TCVMFL'))?.name, 'WTXX8X', 'the parser of the WFO TCV');
+        expect(messageParsers.find(wfo('HLSMFL'))?.name, 'WTUS8X', 'the parser of the HLS');
+    }],
+    ['Segments received out of order are joined in order once the last arrives', () => {
+        const segment = (bbb: string, ...lines: string[]) => [`URNT15 KNHC 081421 ${bbb}`, ...lines].join('\n');
+        const assembler = new WmoSegmentAssembler();
+        expect(assembler.add(segment('PZC',
+            '141330 2347N 08614W 6968 03126 0077 +097 +080 125039 041 043 001 00', '$$'), 1000), null, 'the last segment');
+        expect(assembler.add(segment('PAA', 'NOAA2 1714A MILTON             HDOB 08 20241008',
+            '141230 2349N 08612W 6967 03128 0076 +096 +079 124038 040 042 001 00'), 2000), null, 'the first segment');
+        expect(assembler.pending()[0]?.missing.join(), '1', 'the missing segment');
+
+        const result = assembler.add(segment('PAB',
+            '141300 2348N 08613W 6966 03129 0075 +095 +078 124037 039 041 001 00'), 3000);
+        if (!result?.file || !isHdob(result.file))
+            throw new Error(`Expected the segments to be assembled into an HDOB: ${result?.error}`);
+        expect(result.file.message.data.map(d => d.time?.date.toISOString().substring(11, 19)).join(' '),
+            '14:12:30 14:13:00 14:13:30', 'the observation times');
+        expect(assembler.pending().length, 0, 'the pending sets');
+
+        // A set that never completes is expired after the max age
+        assembler.add(segment('PAA', 'NOAA2 1714A MILTON             HDOB 09 20241008'), 4000);
+        expect(assembler.expire(4000 + 10 * 60 * 1000)[0]?.complete, false, 'the expired set to be incomplete');
+        expect(assembler.pending().length, 0, 'the pending sets after expiring');
+    }],
+    ['Version store orders a correction after the original and diffs the fields', () => {
+        const metar = (bbb: string, report: string) => parseWmo(`SAUS70 KWBC 081900${bbb}\n${report}`);
+        const store = new WmoVersionStore();
+
+        // The correction arrives first, but is still ordered after the original
+        store.add(metar(' CCA', 'METAR KTPA 081853Z 09018KT 10SM FEW008 24/23 A2990='));
+        const chain = store.add(metar('', 'METAR KTPA 081853Z 09015KT 10SM FEW008 24/23 A2990='));
+        expect(chain.versions.map(v => v.version).join(), ',CCA', 'the versions');
+        expect(chain.latest.header.correction, 'A', 'the latest version to be the correction');
+
+        const change = chain.versions[1]?.changes.find(c => c.path === 'reports[0].wind.speed');
+        expect(`${change?.kind} ${change?.from} ${change?.to}`, 'changed 15 18', 'the wind speed change');
+    }],
+    ['Streamed chunks split mid-line are parsed as each bulletin completes', async () => {
+        // Split the feed into small chunks, so the headings and lines span the chunk boundaries
+        const feed = ['001', ...metarLines, '002', ...hdobLines].join('\r\r\n');
+        let read = 0;
+        const chunks = async function* () {
+            for (; read * 7 < feed.length; ++read)
+                yield new TextEncoder().encode(feed.substring(read * 7, read * 7 + 7));
+        };
+        const designators: string[] = [];
+        let readAtFirst = 0;
+        for await (const result of streamWmo(chunks())) {
+            readAtFirst ||= read;
+            designators.push(`${result.index}:${result.file?.header.designator ?? result.error?.message}`);
+        }
+        expect(designators.join(' '), '0:SAUS70 1:URNT15', 'the streamed bulletins');
+        expect(readAtFirst < read, true, 'the first bulletin to be parsed before the last chunk is read');
+    }],
+    ['Batch parser returns the results in order, over the source text', async () => {
+        const texts = [metarLines.join('\n'), 'ZZZZ99 KWBC 081900\nUNKNOWN', hdobLines.join('\n')];
+        const results = await parseWmoBatch(texts, {concurrency: 1, chunkSize: 2});
+        expect(results.map(r => `${r.index}:${r.file?.header.designator}`).join(' '), '0:SAUS70 1:undefined 2:URNT15',
+            'the batch results');
+        expect(results[1]?.error instanceof WmoParseError && results[1].error.code, WmoErrorCode.noMessageParser,
+            'the error of the bad bulletin');
+        expect(results[2]?.file?.parser.getLines(0).join('\n'), texts[2], 'the source text of the batch result');
+        expect(JSON.stringify(results[2]?.file), JSON.stringify(parseWmo(texts[2] ?? '')), 'the JSON of the batch result');
+    }],
+    ['Batch parser fails the task when a worker exits', async () => {
+        const batch = new WmoBatchParser({concurrency: 1, setup: 'data:text/javascript,process.exit(3)'});
+        try {
+            for (let i = 0; i < 2; ++i) {
+                const error = await batch.parse([metarLines.join('\n')]).then(() => null, (e: Error) => e);
+                expect(error?.message, 'The batch worker exited with code 3', 'the error of the exited worker');
+            }
+        } finally {
+            await batch.close();
+        }
+    }],
+    ['Header day 31 on January 1st resolves to the previous December', () => {
+        const date = WmoDateResolver.resolve({day: 31, hour: 23, minute: 0}, new Date('2025-01-01T00:15:00Z'));
+        expect(date.date.toISOString(), '2024-12-31T23:00:00.000Z', 'the resolved date');
+    }],
+    ['HDOB observation after 0000Z rolls into the next day and month', () => {
+        const wmoFile = checkFile([
+            '000',
+            'URNT15 KNHC 010001',
+            'NOAA2 1714A MILTON             HDOB 08 20240930',
+            '235930 2849N 09014W 5500 05130 0113 -025 -042 119022 023 018 000 00',
+            '000000 2848N 09015W 5501 05128 0112 -024 -040 120023 024 019 001 00',
+            '000030 2847N 09016W 5498 05133 0114 -023 -041 121021 022 /// /// 05',
+            '$$'
+        ].join('\n'));
+        if (!isHdob(wmoFile))
+            throw new Error('Expected the file to be an HDOB');
+        expect(wmoFile.message.data.map(d => d.time?.date.toISOString()).join(' '),
+            '2024-09-30T23:59:30.000Z 2024-10-01T00:00:00.000Z 2024-10-01T00:00:30.000Z', 'the observation times');
+    }],
+    ['Day 31 in a 30-day month resolves to the nearest month with a 31st', () => {
+        const date = WmoDateResolver.resolve({day: 31, hour: 12, minute: 0}, new Date('2024-04-30T18:00:00Z'));
+        expect(date.date.toISOString(), '2024-03-31T12:00:00.000Z', 'the resolved date');
+    }],
+    ['Forward bias crosses from December into January', () => {
+        const date = WmoDateResolver.resolve({day: 1, hour: 6, minute: 0}, new Date('2024-12-31T21:00:00Z'),
+            {bias: 'forward'});
+        expect(date.date.toISOString(), '2025-01-01T06:00:00.000Z', 'the resolved date');
+    }],
+    ['NWS time without the leading zero of the hour', () => {
+        // 100 AM must be read as 01:00, not 10:0
+        const date = new WmoDate('100 AM EDT Tue Oct 08 2024', 'hmm a XXX EEE MMM dd yyyy');
+        expect(date.date.toISOString(), '2024-10-08T05:00:00.000Z', 'the parsed date');
+    }],
+    ['TCP hazards keep the intro paragraph and the line breaks of each hazard', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTNT34 KNHC 081500',
+            'TCPAT4',
+            '',
+            'BULLETIN',
+            'Hurricane Milton Advisory Number  17',
+            'NWS National Hurricane Center Miami FL       AL142024',
+            '1000 AM CDT Tue Oct 08 2024',
+            '',
+            '...MILTON EXPECTED TO REMAIN AN EXTREMELY DANGEROUS HURRICANE THROUGH',
+            'LANDFALL ON THE WEST-CENTRAL COAST OF FLORIDA...',
+            '',
+            'SUMMARY OF 1000 AM CDT...1500 UTC...INFORMATION',
+            '-----------------------------------------------',
+            'LOCATION...22.8N 88.8W',
+            'ABOUT 520 MI...835 KM SW OF TAMPA FLORIDA',
+            'MAXIMUM SUSTAINED WINDS...150 MPH...240 KM/H',
+            'PRESENT MOVEMENT...ENE OR 70 DEGREES AT 10 MPH...17 KM/H',
+            'MINIMUM CENTRAL PRESSURE...919 MB...27.14 INCHES',
+            '',
+            'HAZARDS AFFECTING LAND',
+            '----------------------',
+            'Key messages for Milton can be found in the Tropical Cyclone',
+            'Discussion under AWIPS header MIATCDAT4.',
+            '',
+            'STORM SURGE:  The combination of a dangerous storm surge and the tide',
+            'will cause normally dry areas near the coast to be flooded.',
+            '',
+            'Anclote River, FL to Englewood, FL...10-15 ft',
+            'Tampa Bay...10-15 ft',
+            '',
+            'NEXT ADVISORY',
+            '-------------',
+            'Next complete advisory at 400 PM CDT.',
+            '',
+            '$$',
+            'Forecaster Beven'
+        ].join('\n'));
+        if (!isTcp(wmoFile))
+            throw new Error('Expected the file to be a TCP');
+        const tcp = wmoFile.message;
+        expect(tcp.headlines[0], 'MILTON EXPECTED TO REMAIN AN EXTREMELY DANGEROUS HURRICANE THROUGH LANDFALL ON THE ' +
+            'WEST-CENTRAL COAST OF FLORIDA', 'the headline');
+        expect(tcp.summary?.pressure?.mb, 919, 'the minimum central pressure');
+        expect(tcp.hazardsIntro, 'Key messages for Milton can be found in the Tropical Cyclone\n' +
+            'Discussion under AWIPS header MIATCDAT4.', 'the hazards intro');
+        expect(tcp.hazards[0]?.text, 'The combination of a dangerous storm surge and the tide\n' +
+            'will cause normally dry areas near the coast to be flooded.\n\n' +
+            'Anclote River, FL to Englewood, FL...10-15 ft\nTampa Bay...10-15 ft', 'the storm surge hazard');
+        expect(tcp.nextAdvisory?.complete, '400 PM CDT', 'the next complete advisory');
+        expect(tcp.forecaster, 'Beven', 'the forecaster');
+    }],
+    ['WFO TCV segment keeps the indent of its bullets', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTUS82 KMFL 081500',
+            'TCVMFL',
+            '',
+            'URGENT - IMMEDIATE BROADCAST REQUESTED',
+            'Hurricane Milton Local Watch/Warning Statement/Advisory Number 17',
+            'National Weather Service Miami FL  AL142024',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            'FLZ069-081600-',
+            '/O.CON.KMFL.HU.W.1014.000000T0000Z-000000T0000Z/',
+            'Glades-',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            '...HURRICANE WARNING REMAINS IN EFFECT...',
+            '',
+            '* WIND:',
+            '    - LATEST LOCAL FORECAST: Equivalent Tropical Storm force wind',
+            '        - Peak Wind Forecast: 45-55 mph with gusts to 75 mph',
+            '',
+            '$$'
+        ].join('\n'));
+        if (!isTcv(wmoFile))
+            throw new Error('Expected the file to be a TCV');
+        const segment = wmoFile.message.segments[0];
+        expect(segment?.headlines.join(), 'HURRICANE WARNING REMAINS IN EFFECT', 'the segment headlines');
+        expect(segment?.text.split('\n').slice(2).join('\n'), [
+            '* WIND:',
+            '    - LATEST LOCAL FORECAST: Equivalent Tropical Storm force wind',
+            '        - Peak Wind Forecast: 45-55 mph with gusts to 75 mph'
+        ].join('\n'), 'the bullets of the segment');
+    }],
+    ['Vortex data message in the older A. to P. layout', () => {
+        const wmoFile = checkFile([
+            '000',
+            'URNT12 KNHC 281759',
+            'VORTEX DATA MESSAGE           AL112015',
+            'A. 28/17:34:10Z',
+            'B. 26 deg 50 min N',
+            '   070 deg 43 min W',
+            'C. 700 mb 2960 m',
+            'D. 59 kt',
+            'E. 045 deg 18 nm',
+            'F. 139 deg 59 kt',
+            'G. 051 deg 25 nm',
+            'H. EXTRAP 994 mb',
+            'I. 10 C / 3050 m',
+            'J. 14 C / 3046 m',
+            'K. 10 C / NA',
+            'L. OPEN SW',
+            'M. C20',
+            'N. 12345 / 7',
+            'O. 0.02 / 1 nm',
+            'P. AF305 1511A JOAQUIN OB 13',
+            'MAX FL WIND 59 KT 051 / 25 NM 17:30:00Z',
+            ';'
+        ].join('\n'));
+        if (!isVdm(wmoFile))
+            throw new Error('Expected the file to be a VDM');
+        const vdm = wmoFile.message;
+        expect(vdm.minPressure?.pressure, 994, 'the minimum pressure');
+        expect(vdm.minPressure?.extrapolated, true, 'the minimum pressure to be extrapolated');
+        expect(vdm.maxSurfaceWind?.speed, 59, 'the max surface wind');
+        expect(vdm.maxFlightLevelWind?.range, 25, 'the max flight-level wind range');
+        expect(vdm.eye?.character, 'OPEN SW', 'the eye character');
+        expect(vdm.mission?.obsNo, 13, 'the mission observation');
+    }],
+    ['Vortex data message in the current A. to U. layout', () => {
+        const wmoFile = checkFile([
+            '000',
+            'URNT12 KNHC 081812',
+            'VORTEX DATA MESSAGE           AL142024',
+            'A. 08/17:53:50Z',
+            'B. 23.55 deg N 086.60 deg W',
+            'C. 700 mb 2338 m',
+            'D. 929 mb',
+            'E. 140 deg 7 kt',
+            'F. CLOSED',
+            'G. C8',
+            'H. 140 kt',
+            'I. 047 deg 6 nm 17:51:00Z',
+            'J. 134 deg 132 kt',
+            'K. 045 deg 7 nm 17:50:30Z',
+            'L. 133 kt',
+            'M. 225 deg 6 nm 17:56:30Z',
+            'N. 320 deg 141 kt',
+            'O. 224 deg 6 nm 17:56:00Z',
+            'P. 11 C / 3046 m',
+            'Q. 20 C / 3048 m',
+            'R. 15 C / NA',
+            'S. 12345 / 07',
+            'T. 0.02 / 1 nm',
+            'U. AF302 0914A MILTON OB 18',
+            'MAX FL WIND 141 KT SW QUAD 17:56:00Z',
+            ';'
+        ].join('\n'));
+        if (!isVdm(wmoFile))
+            throw new Error('Expected the file to be a VDM');
+        const vdm = wmoFile.message;
+        expect(vdm.minPressure?.pressure, 929, 'the minimum pressure');
+        expect(vdm.minPressure?.extrapolated, false, 'the minimum pressure to be extrapolated');
+        expect(vdm.centerWind?.speed, 7, 'the center wind');
+        expect(vdm.eye?.shape, 'circular', 'the eye shape');
+        expect(vdm.maxSurfaceWind?.time?.date.toISOString().substring(5), '10-08T17:51:00.000Z',
+            'the max surface wind time');
+        expect(vdm.maxOutboundFlightLevelWind?.speed, 141, 'the outbound max flight-level wind');
+        expect(vdm.insideEye?.temperature, 20, 'the temperature inside the eye');
+        expect(vdm.accuracy?.navigation, 0.02, 'the navigation accuracy');
+        expect(vdm.mission?.name, 'MILTON', 'the mission storm name');
+    }],
+    ['Forecast/advisory reads the center, wind radii and forecast track', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTNT24 KNHC 081457',
+            'TCMAT4',
+            '',
+            'HURRICANE MILTON FORECAST/ADVISORY NUMBER  17',
+            'NWS NATIONAL HURRICANE CENTER MIAMI FL       AL142024',
+            '1500 UTC TUE OCT 08 2024',
+            '',
+            'HURRICANE CENTER LOCATED NEAR 22.8N  88.8W AT 08/1500Z',
+            'POSITION ACCURATE WITHIN  10 NM',
+            '',
+            'PRESENT MOVEMENT TOWARD THE EAST-NORTHEAST OR  70 DEGREES AT   9 KT',
+            '',
+            'ESTIMATED MINIMUM CENTRAL PRESSURE  919 MB',
+            'EYE DIAMETER  10 NM',
+            'MAX SUSTAINED WINDS 140 KT WITH GUSTS TO 170 KT.',
+            '64 KT....... 30NE  25SE  20SW  25NW.',
+            '34 KT.......110NE  90SE  80SW 100NW.',
+            '12 FT SEAS..150NE 180SE 150SW 120NW.',
+            '',
+            'FORECAST VALID 09/0000Z 23.6N  87.5W',
+            'MAX WIND 135 KT...GUSTS 165 KT.',
+            '64 KT... 30NE  30SE  25SW  25NW.',
+            '',
+            'FORECAST VALID 10/1200Z 28.4N  80.3W...INLAND',
+            'MAX WIND  85 KT...GUSTS 105 KT.',
+            '',
+            'OUTLOOK VALID 13/1200Z...DISSIPATED',
+            '',
+            'NEXT ADVISORY AT 08/2100Z',
+            '',
+            '$$',
+            'FORECASTER BEVEN'
+        ].join('\n'));
+        if (!isTcm(wmoFile))
+            throw new Error('Expected the file to be a TCM');
+        const tcm = wmoFile.message;
+        expect(`${tcm.center.location.lat} ${tcm.center.location.lon}`, '22.8 -88.8', 'the center location');
+        expect(tcm.movement?.degrees, 70, 'the movement direction');
+        expect(tcm.pressure, 919, 'the minimum pressure');
+        expect(tcm.windRadii.map(r => `${r.threshold}:${r.ne}/${r.se}/${r.sw}/${r.nw}`).join(' '),
+            '64:30/25/20/25 34:110/90/80/100', 'the wind radii');
+        expect(tcm.seasRadii?.se, 180, 'the seas radii');
+        expect(tcm.forecasts.map(f => `${f.hour}:${f.maxWinds}:${f.status}:${f.dissipated}`).join(' '),
+            '12:135:null:false 48:85:INLAND:false 120:null:DISSIPATED:true', 'the forecast track');
+        expect(tcm.forecasts[1]?.time.date.toISOString().substring(5), '10-10T12:00:00.000Z', 'the forecast time');
+        expect(tcm.forecaster, 'BEVEN', 'the forecaster');
+    }],
+    ['Discussion reads the paragraphs and the forecast positions table', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTNT44 KNHC 081500',
+            'TCDAT4',
+            '',
+            'Hurricane Milton Discussion Number  17',
+            'NWS National Hurricane Center Miami FL       AL142024',
+            '1000 AM CDT Tue Oct 08 2024',
+            '',
+            'Milton\'s satellite presentation has changed little this morning,',
+            'with a clear eye surrounded by very cold cloud tops.',
+            '',
+            'The initial motion is east-northeastward, or 070/9 kt.',
+            '',
+            '',
+            'FORECAST POSITIONS AND MAX WINDS',
+            '',
+            'INIT  08/1500Z 22.8N  88.8W  140 KT 160 MPH',
+            ' 12H  09/0000Z 23.6N  87.5W  135 KT 155 MPH',
+            ' 48H  10/1200Z 28.4N  80.3W   85 KT 100 MPH...INLAND',
+            ' 60H  11/0000Z 29.3N  77.5W   65 KT  75 MPH...POST-TROP/EXTRATROP',
+            '120H  13/1200Z...DISSIPATED',
+            '',
+            '$$',
+            'Forecaster Beven'
+        ].join('\n'));
+        if (!isTcd(wmoFile))
+            throw new Error('Expected the file to be a TCD');
+        const tcd = wmoFile.message;
+        expect(tcd.paragraphs.length, 2, 'the number of paragraphs');
+        expect(tcd.paragraphs[0], 'Milton\'s satellite presentation has changed little this morning, with a clear eye '
+            + 'surrounded by very cold cloud tops.', 'the first paragraph');
+        expect(tcd.positions.map(p => `${p.label}:${p.hour}:${p.maxWinds}:${p.maxWindsMph}`).join(' '),
+            'INIT:0:140:160 12H:12:135:155 48H:48:85:100 60H:60:65:75 120H:120:null:null', 'the forecast positions');
+        expect(tcd.positions[3]?.postTropical, true, 'the 60 hour position to be post-tropical');
+        expect(tcd.positions[4]?.dissipated, true, 'the 120 hour position to be dissipated');
+        expect(tcd.positions[1]?.time.date.toISOString().substring(5), '10-09T00:00:00.000Z', 'the 12 hour time');
+        expect(tcd.forecaster, 'Beven', 'the forecaster');
+    }],
+    ['TEMP DROP reads the mandatory levels and the 62626 remarks', () => {
+        const wmoFile = checkFile([
+            '000',
+            'UZNT13 KNHC 081920',
+            'XXAA 58197 99231 70881 08111 99922 28020 20140 00/// ///// /////',
+            '92/// ///// ///// 85/// ///// ///// 70062 17616 22133 88999 77999',
+            '31313 09608 81910',
+            '61616 AF309 2314A MILTON OB 10',
+            '62626 CENTER SPL 2311N08803W 1914 MBL WND 21108 AEV 20604 DLM WND',
+            '24014 922700 WL150 21114 083 LST WND 013 REL 2310N08803W 191056',
+            'SPG 2311N08803W 191402 =',
+            ';'
+        ].join('\n'));
+        if (!isTempDrop(wmoFile))
+            throw new Error('Expected the file to be a TEMP DROP');
+        const drop = wmoFile.message;
+        expect(drop.mandatory?.part, 'AA', 'the part');
+        expect(`${drop.mandatory?.launch?.lat} ${drop.mandatory?.launch?.lon}`, '23.1 -88.1', 'the launch location');
+        expect(drop.mandatory?.levels.map(l => `${l.pressure}:${l.height}:${l.windSpeed}`).join(' '),
+            '922:null:140 1000:null:null 925:null:null 850:null:null 700:3062:133', 'the mandatory levels');
+        expect(drop.mission?.stormName, 'MILTON', 'the mission storm name');
+        expect(drop.remarks?.center, true, 'the sonde to be dropped in the center');
+        expect(`${drop.remarks?.splash?.location.lat} ${drop.remarks?.splash?.location.lon}`, '23.11 -88.03',
+            'the splash location');
+        expect(drop.remarks?.release?.time?.date.toISOString().substring(5), '10-08T19:10:56.000Z', 'the release time');
+        expect(drop.remarks?.deepLayerMeanWind?.bottom, 922, 'the bottom of the deep layer mean wind');
+        expect(drop.remarks?.lowest150mWind?.top, 83, 'the top of the lowest 150 m wind');
+        expect(drop.remarks?.lastWindHeight, 13, 'the height of the last wind');
+    }],
+    ['METAR collective reads continued reports, groups and remarks', () => {
+        const wmoFile = checkFile([
+            '000',
+            'SAUS70 KWBC 081900',
+            'METAR KTPA 081853Z 09015G25KT 060V120 1 1/2SM +RA BR FEW008 BKN015CB',
+            '      OVC030 24/23 A2990 RMK AO2 PK WND 10045/1832 SLP125 PRESFR',
+            '      P0050 T02390228=',
+            'KPIE 081853Z AUTO VRB03KT 10SM CLR 26/M01 A2992 RMK AO2=',
+            'KXYZ 081853Z NIL='
+        ].join('\n'));
+        if (!isMetar(wmoFile))
+            throw new Error('Expected the file to be a METAR collective');
+        const [tpa, pie, xyz] = wmoFile.message.reports;
+        expect(wmoFile.message.reports.map(r => `${r.type} ${r.station}`).join(), 'METAR KTPA,METAR KPIE,METAR KXYZ',
+            'the reports');
+        expect(`${tpa?.wind?.direction} ${tpa?.wind?.speed}G${tpa?.wind?.gust} ${tpa?.wind?.variableFrom}V${
+            tpa?.wind?.variableTo}`, '90 15G25 60V120', 'the wind');
+        expect(tpa?.visibility?.value, 1.5, 'the fractional visibility');
+        expect(tpa?.weather.map(w => `${w.intensity ?? ''}${w.phenomena.join('')}`).join(), '+RA,BR', 'the weather');
+        expect(tpa?.sky.map(c => `${c.cover}${c.height}${c.type ?? ''}`).join(), 'FEW800,BKN1500CB,OVC3000', 'the sky');
+        expect(tpa?.altimeter?.value, 29.9, 'the altimeter');
+        expect(tpa?.remarks?.seaLevelPressure, 1012.5, 'the sea-level pressure');
+        expect(tpa?.remarks?.pressureFallingRapidly, true, 'the pressure to be falling rapidly');
+        expect(tpa?.remarks?.peakWind?.time?.date.toISOString().substring(5), '10-08T18:32:00.000Z',
+            'the peak wind time');
+        expect(`${pie?.auto} ${pie?.wind?.variable} ${pie?.dewPoint}`, 'true true -1', 'the automated report');
+        expect(xyz?.nil, true, 'the missing report');
+    }],
+    ['TAF reads the change groups and their validity across the end of the month', () => {
+        const wmoFile = checkFile([
+            '000',
+            'FTUS42 KTBW 311740 AAA',
+            'TAFTPA',
+            'TAF AMD',
+            'KTPA 311740Z 3118/0124 09015G25KT P6SM VCSH BKN025 WS020/18040KT',
+            '     FM312100 10020G35KT 1 1/2SM TSRA OVC015CB',
+            '     TEMPO 3121/3124 1/2SM +TSRA',
+            '     FM010000 12015KT 5SM -RA BKN020',
+            '     PROB30 TEMPO 0103/0106 2SM TSRA',
+            '     BECMG 0112/0114 18010KT P6SM NSW SCT030',
+            '     AMD NOT SKED=',
+            'TAF COR KABC 311745Z 3118/0118 CNL='
+        ].join('\n'));
+        if (!isTaf(wmoFile))
+            throw new Error('Expected the file to be a TAF');
+        const [tpa, abc] = wmoFile.message.forecasts;
+
+        // The month depends on when the check is run, so the times are compared in hours from the start of the forecast
+        const start = tpa?.valid?.start?.date.getTime() ?? 0;
+        const hours = (date?: WmoDate | null) => date ? (date.date.getTime() - start) / 3600000 : null;
+        expect(`${tpa?.amendment} ${tpa?.valid?.start?.date.getUTCHours()} ${hours(tpa?.valid?.end)}`, 'true 18 30',
+            'the validity of the forecast');
+        expect(tpa?.periods.map(p => `${p.type}${p.probability ?? ''}:${hours(p.valid?.start)}`).join(' '),
+            'BASE:0 FM:3 TEMPO:3 FM:6 TEMPO30:9 BECMG:18', 'the change groups');
+        expect(tpa?.periods[0]?.windShear?.height, 2000, 'the wind shear height');
+        expect(tpa?.periods[0]?.visibility?.greaterThan, true, 'the visibility to be more than 6 SM');
+        expect(tpa?.periods[5]?.noSignificantWeather, true, 'the becoming group to have no significant weather');
+        expect(`${abc?.correction} ${abc?.cancelled}`, 'true true', 'the cancelled correction');
+    }],
+    ['UGC segments expand the code ranges and read the VTEC of each segment', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTUS82 KMFL 081500',
+            'TCVMFL',
+            '',
+            'URGENT - IMMEDIATE BROADCAST REQUESTED',
+            'Hurricane Milton Local Watch/Warning Statement/Advisory Number 17',
+            'National Weather Service Miami FL  AL142024',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            'FLZ069-070-075>077-GAZ154-',
+            '081600-',
+            '/O.CON.KMFL.HU.W.1014.000000T0000Z-000000T0000Z/',
+            'Glades-Hendry-',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            '...HURRICANE WARNING REMAINS IN EFFECT...',
+            '',
+            '$$',
+            '',
+            'FLC021>FLC023-',
+            '081600-',
+            '/O.NEW.KMFL.SS.A.1014.241008T1500Z-241010T0600Z/',
+            '/O.EXA.KMFL.TR.W.1014.241008T1500Z-000000T0000Z/',
+            'Collier-Lee-',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            '...STORM SURGE WATCH IN EFFECT...',
+            '',
+            '$$'
+        ].join('\n'));
+        if (!isTcv(wmoFile))
+            throw new Error('Expected the file to be a TCV');
+        const [first, second] = wmoFile.message.segments;
+        expect(first?.ugc.codes.join(), 'FLZ069,FLZ070,FLZ075,FLZ076,FLZ077,GAZ154', 'the codes of the first segment');
+        expect(second?.ugc.codes.join(), 'FLC021,FLC022,FLC023', 'the codes of the second segment');
+        expect(first?.ugc.expires?.date.toISOString().substring(5), '10-08T16:00:00.000Z', 'the expiry');
+        expect(first?.areas.join(), 'Glades,Hendry', 'the areas of the first segment');
+        expect(`${first?.vtec[0]?.action} ${first?.vtec[0]?.start} ${first?.vtec[0]?.end}`, 'CON null null',
+            'the VTEC of an event already in effect');
+        expect(second?.vtec.map(v => `${v.action}.${v.office}.${v.phenomena}.${v.significance}.${v.etn}`).join(),
+            'NEW.KMFL.SS.A.1014,EXA.KMFL.TR.W.1014', 'the VTEC of the second segment');
+        expect(second?.vtec[0]?.start?.date.toISOString(), '2024-10-08T15:00:00.000Z', 'the VTEC start');
+        expect(second?.vtec[0]?.end?.date.toISOString(), '2024-10-10T06:00:00.000Z', 'the VTEC end');
+        expect(second?.vtec[1]?.end, null, 'the VTEC without an end');
+        expect(second?.headlines.join(), 'STORM SURGE WATCH IN EFFECT', 'the headlines of the second segment');
+    }],
+    ['Local statement reads the UGC line, headline and sections', () => {
+        const wmoFile = checkFile([
+            '000',
+            'WTUS82 KMFL 081500',
+            'HLSMFL',
+            'FLZ063-066>075-168-172>174-081930-',
+            '',
+            'Hurricane Milton Local Statement Advisory Number 17',
+            'National Weather Service Miami FL  AL142024',
+            '1100 AM EDT Tue Oct 8 2024',
+            '',
+            'This product covers South Florida',
+            '',
+            '**HURRICANE MILTON CONTINUES TO APPROACH THE WEST COAST OF FLORIDA',
+            'WITH DANGEROUS IMPACTS EXPECTED**',
+            '',
+            'NEW INFORMATION',
+            '---------------',
+            '',
+            '* STORM INFORMATION:',
+            '    - About 500 miles southwest of Fort Myers FL',
+            '    - 22.5N 89.0W',
+            '',
+            'SITUATION OVERVIEW',
+            '------------------',
+            '',
+            'Hurricane Milton is expected to make landfall along the west coast',
+            'of Florida Wednesday night.',
+            '',
+            '$$'
+        ].join('\n'));
+        if (!isHls(wmoFile))
+            throw new Error('Expected the file to be an HLS');
+        const hls = wmoFile.message;
+        expect(hls.ugc.codes.length, 15, 'the number of codes');
+        expect(hls.ugc.codes.slice(0, 3).join(), 'FLZ063,FLZ066,FLZ067', 'the first codes');
+        expect(hls.covers, 'South Florida', 'the area covered');
+        expect(hls.headline, 'HURRICANE MILTON CONTINUES TO APPROACH THE WEST COAST OF FLORIDA WITH DANGEROUS IMPACTS '
+            + 'EXPECTED', 'the headline');
+        expect(hls.sections.map(s => s.title).join(), 'NEW INFORMATION,SITUATION OVERVIEW', 'the sections');
+        expect(hls.sections[0]?.bullets[0]?.title, 'STORM INFORMATION', 'the bullet title');
+        expect(hls.sections[0]?.bullets[0]?.items.join('|'), 'About 500 miles southwest of Fort Myers FL|22.5N 89.0W',
+            'the bullet items');
+        expect(hls.sections[1]?.paragraphs[0], 'Hurricane Milton is expected to make landfall along the west coast of '
+            + 'Florida Wednesday night.', 'the overview paragraph');
+    }]
+];
+
+(async () => {
 
     // Ensure a test path was provided
     const testPath = process.argv[process.argv.length-1];
@@ -48,11 +701,23 @@ interface ITestCaseFile {
     const testFiles = getFiles(testPath);
 
     // For each test file, parse the .txt
-    const total = testFiles.size;
+    const total = builtInChecks.length + testFiles.size;
     let i = 0;
     let passed = 0;
     let failed = 0;
     console.log(`Running ${total} test cases...`);
+    for (let [name, check] of builtInChecks) {
+        try {
+            await check();
+            ++passed;
+            console.log(`[PASS] [${++i}/${total}] ${name}`);
+        } catch(err) {
+            ++failed;
+            console.error(''.padStart(50, '='));
+            console.error(`[FAIL] [${++i}/${total}] ${name} - ${err}`);
+            console.error(''.padStart(50, '='));
+        }
+    }
     for (let test of testFiles) {
         if (!test[1]['.txt']) {
             console.warn(`Test file ${test[0]} does not have a txt. Skipping.`);
@@ -61,15 +726,8 @@ interface ITestCaseFile {
 
         try {
             const testText = nodeFs.readFileSync(test[0] + '.txt');
-            const wmoFile = parseWmo(testText.toString());
-
-            if (test[1]['.json']) {
-                const jsonText = nodeFs.readFileSync(test[0] + '.json').toString();
-                const parsedStr = JSON.stringify(wmoFile);
-
-                if (jsonText.trim() != parsedStr.trim())
-                    throw new Error(`Parsed JSON does not match expected test JSON.\n\nPARSED\n------\n${parsedStr}\n\nEXPECTED\n--------\n${jsonText}`);
-            }
+            const jsonText = test[1]['.json'] ? nodeFs.readFileSync(test[0] + '.json').toString() : undefined;
+            checkFile(testText.toString(), jsonText);
 
             ++passed;
             console.log(`[PASS] [${++i}/${total}] ${test[0]}`);